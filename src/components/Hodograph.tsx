@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { HodographProps } from '../types';
+import { drawHodograph, joinLayers } from '../utils';
+import {
+  DEFAULT_HODOGRAPH_SIZE,
+  DEFAULT_WIND_SPEED_UNIT,
+  LIGHT_THEME
+} from '../constants';
+
+/**
+ * Hodograph of the sounding winds with Bunkers storm motion
+ */
+const Hodograph = ({
+  data,
+  size = DEFAULT_HODOGRAPH_SIZE,
+  speedUnit = DEFAULT_WIND_SPEED_UNIT,
+  showStormMotion = true,
+  theme = LIGHT_THEME,
+  className
+}: HodographProps) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  // Remove the chart on unmount
+  useEffect(() => {
+    const chart = chartRef.current;
+    return () => {
+      if (chart) d3.select(chart).selectAll('svg').remove();
+    };
+  }, []);
+
+  // Update the same svg on every prop change
+  useEffect(() => {
+    if (chartRef.current) {
+      const svg = d3.select(chartRef.current)
+        .selectAll<SVGSVGElement, null>(':scope > svg')
+        .data([null])
+        .join('svg')
+        .attr('width', `${size}px`)
+        .attr('height', `${size}px`)
+        .attr('class', className || 'hodograph-chart');
+
+      const { hodograph } = joinLayers(d3.select(svg.node()!), ['hodograph']);
+      drawHodograph(hodograph, data, size, speedUnit, showStormMotion, theme);
+    }
+  }, [data, size, speedUnit, showStormMotion, theme, className]);
+
+  return <div ref={chartRef} className="hodograph-chart" />;
+};
+
+export default Hodograph;
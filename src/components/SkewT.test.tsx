@@ -0,0 +1,74 @@
+/**
+ * @jest-environment jsdom
+ */
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import SkewT from './SkewT';
+import { SkewTMeasurement, SoundingWarning } from '../types';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Two soundings with one out-of-range value each
+const first: SkewTMeasurement[] = [
+    { press: 1000, hght: 110, temp: 25, dwpt: 20, wdir: 400, wspd: 10 },
+    { press: 850, hght: 1500, temp: 17, dwpt: 14, wdir: 200, wspd: 15 },
+    { press: 500, hght: 5800, temp: -12, dwpt: -25, wdir: 260, wspd: 25 }
+];
+const second: SkewTMeasurement[] = first.map(d => ({ ...d, wdir: d.press === 850 ? 400 : 180 }));
+
+describe('SkewT', () => {
+    let container: HTMLDivElement;
+    let root: Root;
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        document.body.appendChild(container);
+        root = createRoot(container);
+    });
+
+    afterEach(() => {
+        act(() => root.unmount());
+        container.remove();
+    });
+
+    it('reports the warnings of inline onDataWarning once per distinct data', () => {
+        const reported: SoundingWarning[][] = [];
+        const draw = (data: SkewTMeasurement[], width: number) => act(() => root.render(
+            <SkewT data={data} siteName="OAX" sourceName="RAOB" width={width} onDataWarning={warnings => reported.push(warnings)} />
+        ));
+
+        draw(first, 750);
+        draw(first, 700);
+        draw(first, 700);
+        expect(reported).toHaveLength(1);
+        expect(reported[0]).toEqual([expect.objectContaining({ code: 'out-of-range', press: 1000, field: 'wdir' })]);
+
+        draw(second, 700);
+        draw(second, 750);
+        expect(reported).toHaveLength(2);
+        expect(reported[1]).toEqual([expect.objectContaining({ code: 'out-of-range', press: 850, field: 'wdir' })]);
+    });
+
+    it('does not redraw the chart for inline props and callbacks of the same value', () => {
+        const draw = (width: number) => act(() => root.render(
+            <SkewT
+                data={first}
+                siteName="OAX"
+                sourceName="RAOB"
+                width={width}
+                temperatureRange={[-40, 40]}
+                onDownload={() => undefined}
+                onDataWarning={() => undefined}
+            />
+        ));
+        const temp = () => container.querySelector('path.temp')!;
+
+        draw(750);
+        temp().setAttribute('d', 'M0,0');
+        draw(750);
+        expect(temp().getAttribute('d')).toBe('M0,0');
+
+        draw(700);
+        expect(temp().getAttribute('d')).not.toBe('M0,0');
+    });
+});
@@ -1 +1,2 @@
-export { default as SkewT } from './SkewT';
\ No newline at end of file
+export { default as SkewT } from './SkewT';
+export { default as Hodograph } from './Hodograph';
\ No newline at end of file
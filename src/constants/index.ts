@@ -1,3 +1,5 @@
+import { DerivedTrace, SkewTExportFormat, SkewTMeasurement, SkewTTheme, SkewTUnits } from '../types';
+
 /**
  * Default chart dimensions and margins
  */
@@ -11,6 +13,11 @@ export const DEFAULT_MARGIN = { top: 30, right: 40, bottom: 20, left: 30 };
 export const DEFAULT_BASE_PRESSURE = 1050; // hPa
 export const DEFAULT_TOP_PRESSURE = 100; // hPa
 
+/**
+ * Highest level (hPa) of the automatically derived top pressure
+ */
+export const MIN_AUTO_TOP_PRESSURE = 50;
+
 /**
  * Standard pressure levels (hPa) for grid lines
  */
@@ -21,10 +28,21 @@ export const STANDARD_PRESSURE_LINES = [1000, 850, 700, 500, 300, 200, 100, 50];
  */
 export const STANDARD_PRESSURE_TICKS = [950, 850, 750, 650, 550, 450, 350, 250, 150, 50];
 
+/**
+ * Saturated adiabats, labelled by their temperature (°C) at 1000 hPa
+ */
+export const STANDARD_MOIST_ADIABATS = [-16, -12, -8, -4, 0, 4, 8, 12, 16, 20, 24, 28, 32, 36];
+
+/**
+ * Saturation mixing-ratio lines (g/kg), drawn from the base pressure up to MIXING_RATIO_TOP_PRESSURE
+ */
+export const STANDARD_MIXING_RATIOS = [0.4, 1, 2, 3, 5, 8, 12, 16, 20, 28];
+export const MIXING_RATIO_TOP_PRESSURE = 600; // hPa
+
 /**
  * Default temperature range for x-axis (°C)
  */
-export const DEFAULT_TEMP_RANGE = [-70, 50];
+export const DEFAULT_TEMP_RANGE: [number, number] = [-70, 50];
 
 /**
  * SkewT angle in degrees
@@ -32,12 +50,269 @@ export const DEFAULT_TEMP_RANGE = [-70, 50];
 export const SKEW_ANGLE = 55;
 
 /**
- * Default wind barb size in pixels
+ * Maximum zoom factor of the interactive diagram
+ */
+export const MAX_ZOOM = 20;
+
+/**
+ * Default wind barb size and minimum vertical distance between barbs in pixels
  */
 export const DEFAULT_BARB_SIZE = 25;
+export const DEFAULT_BARB_SPACING = 15;
+
+/**
+ * Default hodograph size in pixels, standalone and as SkewT inset
+ */
+export const DEFAULT_HODOGRAPH_SIZE = 250;
+export const DEFAULT_HODOGRAPH_INSET_SIZE = 150;
+
+/**
+ * Height of the title line above the chart in pixels
+ */
+export const TITLE_HEIGHT = 50;
+
+/**
+ * Height of a legend row in pixels; a legend of more rows takes the room from the diagram
+ */
+export const LEGEND_ROW_HEIGHT = 18;
+
+/**
+ * Legend names of the derived temperature traces
+ */
+export const DERIVED_TRACE_NAMES: Record<DerivedTrace, string> = {
+    wetBulb: 'Wet-Bulb Temperature',
+    virtualTemp: 'Virtual Temperature'
+};
+
+/**
+ * Default export menu formats, PNG pixel ratio and file name template
+ */
+export const DEFAULT_EXPORT_FORMATS: SkewTExportFormat[] = ['png', 'svg', 'csv', 'json'];
+export const DEFAULT_PNG_SCALE = 2;
+export const DEFAULT_EXPORT_FILENAME = 'SkewT-{site}-{source}';
+
+/**
+ * Class of the chart elements that only serve the pointer, left out of exported images
+ */
+export const INTERACTIVE_CLASS = 'interactive-only';
+
+/**
+ * Hodograph segment colours by height above the lowest level (m)
+ */
+export const HODOGRAPH_HEIGHT_BANDS = [
+    { top: 3000, color: '#d62728' },
+    { top: 6000, color: '#2ca02c' },
+    { top: 9000, color: '#e6b800' },
+    { top: Infinity, color: '#1f77b4' }
+];
 
 /**
  * Wind speed unit options
  */
-export type WindSpeedUnit = 'ms' | 'kt' | 'kmh';
-export const DEFAULT_WIND_SPEED_UNIT: WindSpeedUnit = 'kmh';
\ No newline at end of file
+export type WindSpeedUnit = 'ms' | 'kt' | 'kmh' | 'mph';
+export const DEFAULT_WIND_SPEED_UNIT: WindSpeedUnit = 'kmh';
+
+/**
+ * Temperature, height and pressure unit options
+ */
+export type TemperatureUnit = 'C' | 'F' | 'K';
+export type HeightUnit = 'm' | 'ft' | 'km' | 'kft';
+export type PressureUnit = 'hPa' | 'kPa' | 'inHg';
+export const DEFAULT_TEMPERATURE_UNIT: TemperatureUnit = 'C';
+export const DEFAULT_HEIGHT_UNIT: HeightUnit = 'm';
+export const DEFAULT_PRESSURE_UNIT: PressureUnit = 'hPa';
+
+export const DEFAULT_UNITS: SkewTUnits = {
+    temperature: DEFAULT_TEMPERATURE_UNIT,
+    height: DEFAULT_HEIGHT_UNIT,
+    pressure: DEFAULT_PRESSURE_UNIT,
+    windSpeed: DEFAULT_WIND_SPEED_UNIT
+};
+
+/**
+ * Unit symbols shown on axes, in tooltips and in exports
+ */
+export const UNIT_SYMBOLS: Record<TemperatureUnit | HeightUnit | PressureUnit | WindSpeedUnit, string> = {
+    C: '°C',
+    F: '°F',
+    K: 'K',
+    m: 'm',
+    ft: 'ft',
+    km: 'km',
+    kft: 'kft',
+    hPa: 'hPa',
+    kPa: 'kPa',
+    inHg: 'inHg',
+    ms: 'm/s',
+    kt: 'kt',
+    kmh: 'km/h',
+    mph: 'mph'
+};
+
+/**
+ * Temperature range (°C) of supercooled icing layers, and the default largest
+ * temperature–dew point spread (°C) at which the air counts as cloudy
+ */
+export const ICING_TEMPERATURE_RANGE: [number, number] = [-20, 0];
+export const DEFAULT_ICING_SPREAD = 3;
+
+/**
+ * Thresholds of the sounding feature analysis: the default largest temperature–dew point
+ * spread (°C) of cloud layers, the largest lapse rate (K/km) of isothermal layers, the
+ * smallest depth (m) of inversions and isothermal layers, and the WMO tropopause criteria
+ */
+export const DEFAULT_CLOUD_SPREAD = 2;
+export const ISOTHERMAL_LAPSE_RATE = 0.5;
+export const MIN_FEATURE_DEPTH = 100;
+export const TROPOPAUSE_LAPSE_RATE = 2; // K/km
+export const TROPOPAUSE_DEPTH = 2000; // m
+export const TROPOPAUSE_MAX_PRESSURE = 500; // hPa
+
+/**
+ * Physical constants used by the thermodynamic calculations
+ */
+export const ZERO_CELSIUS = 273.15; // K
+export const RD = 287.04; // J/(kg·K), gas constant for dry air
+export const CP = 1005.7; // J/(kg·K), specific heat of dry air at constant pressure
+export const LV = 2.501e6; // J/kg, latent heat of vaporization
+export const EPSILON = 0.622; // ratio of molecular weights of water vapour and dry air
+export const KAPPA = RD / CP;
+export const GRAVITY = 9.80665; // m/s², standard gravity
+
+/**
+ * ICAO standard atmosphere: sea-level pressure and temperature, and the lapse rate of
+ * each layer from its base height up to the next. It stands in for missing sounding
+ * heights and defines flight levels.
+ */
+export const ISA_SEA_LEVEL_PRESSURE = 1013.25; // hPa
+export const ISA_SEA_LEVEL_TEMPERATURE = 288.15; // K
+export const ISA_GAS_CONSTANT = 287.05287; // J/(kg·K)
+export const ISA_LAYERS: Array<{ hght: number, lapseRate: number }> = [
+    { hght: 0, lapseRate: 0.0065 }, // K/m
+    { hght: 11000, lapseRate: 0 },
+    { hght: 20000, lapseRate: -0.001 },
+    { hght: 32000, lapseRate: -0.0028 },
+    { hght: 47000, lapseRate: 0 },
+    { hght: 51000, lapseRate: 0.0028 }
+];
+
+/**
+ * Width in pixels of each height scale along the right edge of the diagram
+ */
+export const HEIGHT_AXIS_WIDTH = 45;
+
+/**
+ * Side panel: default width, and the gap to the diagram that keeps the wind barbs and
+ * buttons clear, in pixels
+ */
+export const DEFAULT_SIDE_PANEL_WIDTH = 80;
+export const SIDE_PANEL_GAP = 40;
+
+/**
+ * Missing-value markers of sounding formats and archives. Out of range values equal to one
+ * of these are treated as missing by normalizeSounding, other out of range values as errors.
+ */
+export const MISSING_VALUE_SENTINELS = [-99999, -9999, -999.9, -999, -99.9, 999, 9999, 99999, -32768, 32767];
+
+/**
+ * Physically possible range of each measurement field, in the units of SkewTMeasurement;
+ * pressure must also be above 0
+ */
+export const MEASUREMENT_LIMITS: Record<keyof SkewTMeasurement, [number, number]> = {
+    press: [0, 1100],
+    hght: [-500, 60000],
+    temp: [-120, 70],
+    dwpt: [-150, 70],
+    wdir: [0, 360],
+    wspd: [0, 150]
+};
+
+
+/**
+ * Built-in themes; the light theme is the default
+ */
+export const LIGHT_THEME: SkewTTheme = {
+    background: '#ffffff',
+    font: { size: 12, labelSize: 9, panelSize: 11 },
+    text: '#000000',
+    mutedText: '#888888',
+    lines: {
+        temp: { color: 'red', width: 3, opacity: 0.8 },
+        dwpt: { color: 'green', width: 3, opacity: 0.8 },
+        wetBulb: { color: '#1c7ed6', width: 1.5, opacity: 0.9 },
+        virtualTemp: { color: '#c92a2a', width: 1.5, dashArray: '4,3', opacity: 0.9 },
+        parcel: { color: '#333333', width: 1.5, dashArray: '6,3' },
+        mean: { color: 'black', width: 1.8, opacity: 1 },
+        member: { color: '#999999', width: 1, opacity: 0.4 },
+        sidePanel: { color: '#1864ab', width: 1.5 }
+    },
+    profileColors: ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'],
+    fills: {
+        cape: '#f4a582',
+        cin: '#92c5de',
+        tempSpread: '#f4a6a6',
+        dwptSpread: '#a6d8a6',
+        icing: '#9ecae1'
+    },
+    grid: {
+        isotherm: { color: '#dfdfdf', width: 0.75 },
+        zeroIsotherm: { color: '#aaaaaa', width: 1.25 },
+        isobar: { color: '#dfdfdf', width: 0.75 },
+        dryAdiabat: { color: '#dfdfdf', width: 0.75 },
+        moistAdiabat: { color: '#a8d5a8', width: 0.75, dashArray: '5,3' },
+        mixingRatio: { color: '#c3a6d8', width: 0.75, dashArray: '2,3' },
+        moistAdiabatLabel: '#5a9e5a',
+        mixingRatioLabel: '#8a63a8',
+        hodographAxis: { color: '#bbbbbb', width: 0.75 }
+    },
+    levels: { freezing: '#1f6fb2', wetBulbZero: '#7b3fa0' },
+    features: { cloud: '#607080', inversion: '#d9480f', isothermal: '#c28a00', tropopause: '#5f3dc4' },
+    axis: { color: '#000000', width: 2 },
+    barbs: { color: '#000000', width: 0.75 },
+    tooltip: { temp: 'red', dwpt: 'green', wetBulb: '#1c7ed6', virtualTemp: '#c92a2a', text: '#000000' },
+    panel: { fill: '#fafafa', stroke: '#cccccc' },
+    button: { fill: '#f0f0f0', stroke: '#cccccc', icon: '#333333' }
+};
+
+export const DARK_THEME: SkewTTheme = {
+    background: '#1b1d21',
+    font: { size: 12, labelSize: 9, panelSize: 11 },
+    text: '#e3e3e3',
+    mutedText: '#9a9a9a',
+    lines: {
+        temp: { color: '#ff6b6b', width: 3, opacity: 0.9 },
+        dwpt: { color: '#51cf66', width: 3, opacity: 0.9 },
+        wetBulb: { color: '#74c0fc', width: 1.5, opacity: 0.9 },
+        virtualTemp: { color: '#ff8787', width: 1.5, dashArray: '4,3', opacity: 0.9 },
+        parcel: { color: '#d0d0d0', width: 1.5, dashArray: '6,3' },
+        mean: { color: '#ffffff', width: 1.8, opacity: 1 },
+        member: { color: '#8a8a8a', width: 1, opacity: 0.45 },
+        sidePanel: { color: '#74c0fc', width: 1.5 }
+    },
+    profileColors: ['#4e9fe6', '#ffa04d', '#5cd65c', '#ff7b7b', '#b48fe0', '#c9a08f', '#f29ad8', '#b0b0b0', '#dede4a', '#4fd8e8'],
+    fills: {
+        cape: '#c8603c',
+        cin: '#3f7fae',
+        tempSpread: '#9e4a4a',
+        dwptSpread: '#3e7a44',
+        icing: '#3a6d8c'
+    },
+    grid: {
+        isotherm: { color: '#363a40', width: 0.75 },
+        zeroIsotherm: { color: '#70757d', width: 1.25 },
+        isobar: { color: '#363a40', width: 0.75 },
+        dryAdiabat: { color: '#363a40', width: 0.75 },
+        moistAdiabat: { color: '#3d6b45', width: 0.75, dashArray: '5,3' },
+        mixingRatio: { color: '#5d4b75', width: 0.75, dashArray: '2,3' },
+        moistAdiabatLabel: '#7fbf88',
+        mixingRatioLabel: '#b39ad1',
+        hodographAxis: { color: '#5a5f66', width: 0.75 }
+    },
+    levels: { freezing: '#6fb3ff', wetBulbZero: '#c59af0' },
+    features: { cloud: '#a8b8c8', inversion: '#ff8a50', isothermal: '#f0c060', tropopause: '#a98bff' },
+    axis: { color: '#c8c8c8', width: 2 },
+    barbs: { color: '#e3e3e3', width: 0.75 },
+    tooltip: { temp: '#ff6b6b', dwpt: '#51cf66', wetBulb: '#74c0fc', virtualTemp: '#ff8787', text: '#e3e3e3' },
+    panel: { fill: '#24272c', stroke: '#4a4f57' },
+    button: { fill: '#2b2f35', stroke: '#4a4f57', icon: '#dddddd' }
+};
\ No newline at end of file
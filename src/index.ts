@@ -1,5 +1,5 @@
 // Export components
-export { SkewT } from './components';
+export { SkewT, Hodograph } from './components';
 
 // Export types
 export * from './types';
@@ -7,10 +7,83 @@ export * from './types';
 // Export utility functions
 export {
     convertWindSpeed,
+    windSpeedToMs,
+    convertTemperature,
+    temperatureToCelsius,
+    convertHeight,
+    convertPressure,
+    convertMeasurement,
     normalizeString,
-    getSmallestPressureValue
+    getSmallestPressureValue,
+    normalizeSounding
 } from './utils';
 
+// Export thermodynamic functions
+export {
+    saturationVaporPressure,
+    dewpointFromVaporPressure,
+    relativeHumidity,
+    mixingRatio,
+    saturationMixingRatio,
+    dewpointFromMixingRatio,
+    potentialTemperature,
+    equivalentPotentialTemperature,
+    virtualTemperature,
+    wetBulbTemperature,
+    derivedTemperatures,
+    hypsometricThickness,
+    standardAtmosphereHeight,
+    standardAtmospherePressure,
+    liftingCondensationLevel,
+    dryLapseRate,
+    moistLapseRate,
+    dryAdiabaticTemperature,
+    moistAdiabaticTemperature
+} from './utils';
+
+// Export vertical interpolation functions
+export {
+    fieldAtPressure,
+    fieldAtHeight,
+    heightAtPressure,
+    pressureAtHeight,
+    interpolateToPressure,
+    interpolateToHeight,
+    fillHeights,
+    heightsAboveGround
+} from './utils';
+
+// Export sounding analysis functions
+export {
+    liftParcel,
+    surfaceLevel,
+    modifySurface,
+    computeIndices,
+    freezingLevels,
+    wetBulbZero,
+    icingLayers,
+    tropopause,
+    soundingFeatures,
+    sidePanelProfile,
+    windComponents,
+    bunkersStormMotion,
+    ensembleStatistics
+} from './utils';
+
+// Export rendering and export functions
+export {
+    renderSkewTToSvgString,
+    soundingToCsv,
+    formatExportFilename
+} from './utils';
+
+// Export sounding parsers
+export {
+    parseWyomingSounding,
+    parseIGRA2Soundings,
+    decodeTempMessage
+} from './parsers';
+
 // Export constants
 export {
     DEFAULT_WIDTH,
@@ -23,5 +96,19 @@ export {
     SKEW_ANGLE,
     DEFAULT_BARB_SIZE,
     DEFAULT_WIND_SPEED_UNIT,
-    type WindSpeedUnit
+    DEFAULT_TEMPERATURE_UNIT,
+    DEFAULT_HEIGHT_UNIT,
+    DEFAULT_PRESSURE_UNIT,
+    DEFAULT_UNITS,
+    DEFAULT_HODOGRAPH_SIZE,
+    MISSING_VALUE_SENTINELS,
+    MEASUREMENT_LIMITS,
+    ICING_TEMPERATURE_RANGE,
+    DEFAULT_ICING_SPREAD,
+    LIGHT_THEME,
+    DARK_THEME,
+    type WindSpeedUnit,
+    type TemperatureUnit,
+    type HeightUnit,
+    type PressureUnit
 } from './constants';
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseIGRA2Soundings } from './igra2';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('parseIGRA2Soundings', () => {
+    const soundings = parseIGRA2Soundings(fixture('igra2-USM00072572.txt'));
+
+    it('reads one sounding per header', () => {
+        expect(soundings).toHaveLength(2);
+        expect(soundings[0].station).toEqual({
+            id: 'USM00072572',
+            number: '72572',
+            latitude: 40.7772,
+            longitude: -111.955,
+            time: '2023-06-01T12:00:00.000Z'
+        });
+        // Hour 99 means the nominal hour is missing
+        expect(soundings[1].station.time).toBe('2023-06-02T00:00:00.000Z');
+    });
+
+    it('converts the levels to hPa, °C and m/s', () => {
+        expect(soundings[0].data[0]).toEqual({ press: 861, hght: 1289, temp: 21.2, dwpt: 12.7, wdir: 150, wspd: 2 });
+        expect(soundings[0].data[1]).toEqual({ press: 850, hght: 1387, temp: 19.6, dwpt: 12.5, wdir: 160, wspd: 3.1 });
+    });
+
+    it('leaves missing (-9999) and removed (-8888) values out', () => {
+        const [, , l700, l500, l300] = soundings[0].data;
+        expect(l700).toEqual({ press: 700, hght: 3062, temp: 5.2, wdir: 230, wspd: 5.1 });
+        expect(l500).toEqual({ press: 500, hght: 5790, temp: -12.3, wdir: 250, wspd: 11.3 });
+        expect(l300).toEqual({ press: 300, hght: 9450 });
+        expect(soundings[1].data[0]).toEqual({ press: 860, hght: 1289, temp: 25, dwpt: 13 });
+    });
+
+    it('skips levels without pressure', () => {
+        expect(soundings[0].data.map(d => d.press)).toEqual([861, 850, 700, 500, 300]);
+    });
+
+    it('rejects input without a sounding header', () => {
+        expect(() => parseIGRA2Soundings('')).toThrow('No IGRA2 sounding header found');
+        expect(() => parseIGRA2Soundings('10 -9999  85000  1387A  196A  470    71   160    31\n')).toThrow();
+    });
+
+    it('ignores unreadable fields of a malformed level', () => {
+        const [sounding] = parseIGRA2Soundings(
+            '#USM00072572 2023 06 01 12 1102    1 ncdc-gts ncdc-gts  407772 -1119550\n' +
+            '10 -9999  85000  1387A  ***A  470    71   160    31\n'
+        );
+        expect(sounding.data).toEqual([{ press: 850, hght: 1387, wdir: 160, wspd: 3.1 }]);
+    });
+});
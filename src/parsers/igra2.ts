@@ -0,0 +1,82 @@
+import { ParsedSounding, SkewTMeasurement } from '../types';
+
+/**
+ * IGRA2 sentinels for missing (-9999) and removed (-8888) values
+ */
+const MISSING_VALUES = [-9999, -8888];
+
+/**
+ * Reads an integer from 1-based inclusive fixed-width columns
+ */
+function field(line: string, from: number, to: number): number | undefined {
+    const text = line.slice(from - 1, to).trim();
+    if (text === '') return undefined;
+    const value = parseInt(text, 10);
+    return isNaN(value) || MISSING_VALUES.includes(value) ? undefined : value;
+}
+
+/**
+ * Parses the soundings of an NOAA IGRA2 data file (version 2 fixed-width format).
+ * Levels without pressure, such as height-only wind levels, are skipped.
+ *
+ * @param input Contents of an IGRA2 "-data.txt" file
+ * @returns One entry per sounding header, each with measurement points in m/s, m and °C
+ * @throws Error if the input contains no sounding header
+ */
+export function parseIGRA2Soundings(input: string): ParsedSounding[] {
+    const soundings: ParsedSounding[] = [];
+    let current: ParsedSounding | null = null;
+
+    input.split(/\r?\n/).forEach(line => {
+        if (line.startsWith('#')) {
+            const year = field(line, 14, 17);
+            const month = field(line, 19, 20);
+            const day = field(line, 22, 23);
+            const hour = field(line, 25, 26);
+            const lat = field(line, 56, 62);
+            const lon = field(line, 64, 71);
+
+            const id = line.slice(1, 12).trim();
+            current = {
+                station: {
+                    id,
+                    number: id.slice(-5),
+                    latitude: lat === undefined ? undefined : lat / 10000,
+                    longitude: lon === undefined ? undefined : lon / 10000,
+                    time: year && month && day
+                        ? new Date(Date.UTC(year, month - 1, day, hour === undefined || hour === 99 ? 0 : hour)).toISOString()
+                        : undefined
+                },
+                data: []
+            };
+            soundings.push(current);
+            return;
+        }
+
+        if (!current || line.trim() === '') return;
+
+        const press = field(line, 10, 15);
+        if (press === undefined) return;
+
+        const level: SkewTMeasurement = { press: press / 100 };
+        const gph = field(line, 17, 21);
+        const temp = field(line, 23, 27);
+        const dpdp = field(line, 35, 39);
+        const wdir = field(line, 41, 45);
+        const wspd = field(line, 47, 51);
+
+        if (gph !== undefined) level.hght = gph;
+        if (temp !== undefined) level.temp = temp / 10;
+        if (temp !== undefined && dpdp !== undefined) level.dwpt = (temp - dpdp) / 10;
+        if (wdir !== undefined) level.wdir = wdir;
+        if (wspd !== undefined) level.wspd = wspd / 10;
+
+        (current as ParsedSounding).data.push(level);
+    });
+
+    if (!soundings.length) {
+        throw new Error('No IGRA2 sounding header found');
+    }
+
+    return soundings;
+}
@@ -0,0 +1,3 @@
+export * from './wyoming';
+export * from './igra2';
+export * from './wmoTemp';
\ No newline at end of file
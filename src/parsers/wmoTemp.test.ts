@@ -0,0 +1,154 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodeTempMessage } from './wmoTemp';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+const kt = (speed: number) => speed * 0.514444;
+
+describe('decodeTempMessage', () => {
+    const ttaa = fixture('temp-72572-ttaa.txt');
+    const ttbb = fixture('temp-72572-ttbb.txt');
+    const ppbb = fixture('temp-72572-ppbb.txt');
+
+    describe('TTAA', () => {
+        const decoded = decodeTempMessage(ttaa);
+        const at = (press: number) => decoded.data.find(d => d.press === press);
+
+        it('reads the station, day and hour', () => {
+            expect(decoded.station).toEqual({ id: '72572', number: '72572' });
+            expect(decoded.day).toBe(1);
+            expect(decoded.hour).toBe(12);
+            expect(decoded.warnings).toEqual([]);
+        });
+
+        it('decodes the surface and the mandatory levels above it', () => {
+            expect(decoded.data.map(d => d.press)).toEqual([861, 850, 700, 500, 400, 300, 250, 220, 200, 197, 150, 100]);
+            expect(at(861)).toEqual({ press: 861, temp: 21.2, dwpt: 13.2, wdir: 150, wspd: expect.any(Number) });
+            expect(at(700)).toEqual({ press: 700, hght: 3062, temp: 5.2, dwpt: -10.8, wdir: 230, wspd: expect.any(Number) });
+            expect(at(700)!.wspd).toBeCloseTo(kt(10), 4);
+        });
+
+        it('reconstructs the heights of the mandatory levels', () => {
+            expect([850, 500, 300, 250, 200, 100].map(p => at(p)!.hght)).toEqual([1387, 5790, 9450, 10690, 11880, 16400]);
+        });
+
+        it('decodes the tropopause and the maximum wind with its shear group', () => {
+            expect(at(197)).toEqual({ press: 197, temp: -55.7, dwpt: -63.7, wdir: 265, wspd: expect.any(Number) });
+            expect(at(220)).toEqual({ press: 220, wdir: 265, wspd: expect.any(Number) });
+            expect(at(220)!.wspd).toBeCloseTo(kt(60), 4);
+        });
+
+        it('drops mandatory levels below the surface', () => {
+            expect(at(1000)).toBeUndefined();
+            expect(at(925)).toBeUndefined();
+        });
+
+        it('decodes the maximum wind at the top after no tropopause', () => {
+            const top = decodeTempMessage(fixture('temp-72572-ttaa-top-wind.txt'));
+            expect(top.hour).toBe(0);
+            expect(top.warnings).toEqual([]);
+            expect(top.data.map(d => d.press)).not.toContain(999);
+            expect(top.data.find(d => d.press === 100)).toEqual({
+                press: 100, hght: 16300, temp: -63.7, dwpt: -73.7, wdir: 270, wspd: expect.any(Number)
+            });
+            expect(top.data.find(d => d.press === 100)!.wspd).toBeCloseTo(kt(95), 4);
+        });
+
+        it('stops at a 41414 section after a maximum wind instead of taking it for a shear group', () => {
+            const decoded = decodeTempMessage('TTAA 51121 72572 99861 21258 15004 77220 26560 41414 45658=');
+            expect(decoded.warnings).toEqual([]);
+            expect(decoded.data.map(d => d.press)).toEqual([861, 220]);
+        });
+
+        it('carries the hundreds of the wind speed in the direction', () => {
+            const decoded = decodeTempMessage('TTAA 51121 72572 99861 21258 25605 88999 77999=');
+            expect(decoded.data[0].wdir).toBe(255);
+            expect(decoded.data[0].wspd).toBeCloseTo(kt(105), 4);
+        });
+    });
+
+    describe('TTBB', () => {
+        const decoded = decodeTempMessage(ttbb);
+        const at = (press: number) => decoded.data.find(d => d.press === press);
+
+        it('decodes the significant temperature and wind levels', () => {
+            expect(decoded.warnings).toEqual([]);
+            expect(decoded.data.map(d => d.press)).toEqual([861, 850, 812, 700, 620, 500, 400, 300, 197, 150, 100]);
+            expect(at(812)).toEqual({ press: 812, temp: 16.4, dwpt: 10.4 });
+            expect(at(620)).toEqual({ press: 620, temp: 1, dwpt: -7 });
+            expect(at(500)).toEqual({ press: 500, temp: -12.3, dwpt: -32.3, wdir: 250, wspd: expect.any(Number) });
+        });
+
+        it('keeps the temperature when the dew point depression is missing', () => {
+            expect(at(400)).toEqual({ press: 400, temp: -23.9 });
+        });
+
+        it('ignores the 31313 and 41414 sections', () => {
+            expect(at(587)).toBeUndefined();
+            expect(decoded.data).toHaveLength(11);
+        });
+
+        it('warns about levels out of sequence', () => {
+            const decoded = decodeTempMessage('TTBB 51120 72572 00861 21258 22812 16456=');
+            expect(decoded.warnings).toEqual([{ part: 'TTBB', group: '22812', message: 'Expected level indicator 11' }]);
+            expect(decoded.data.map(d => d.press)).toEqual([861, 812]);
+        });
+    });
+
+    describe('PPBB', () => {
+        it('needs the heights of another part to place its winds', () => {
+            const decoded = decodeTempMessage(ppbb);
+            expect(decoded.data).toEqual([]);
+            expect(decoded.warnings).toHaveLength(9);
+            expect(decoded.warnings[0]).toEqual({ part: 'PPBB', message: 'No pressure for wind at 0 m, level skipped' });
+        });
+    });
+
+    describe('complete bulletin', () => {
+        const decoded = decodeTempMessage([ttaa, ttbb, ppbb].join('\n'));
+        const at = (press: number) => decoded.data.find(d => d.press === press);
+
+        it('merges the parts from the surface up', () => {
+            expect(decoded.data.map(d => d.press)).toEqual([
+                861, 850, 812, 810.3, 700, 655.1, 620, 586.2, 524.6, 500, 400, 300, 250, 220, 200, 197, 150, 100
+            ]);
+            expect(at(400)).toEqual({ press: 400, hght: 7430, temp: -23.9, dwpt: -30.9, wdir: 255, wspd: expect.any(Number) });
+        });
+
+        it('places the winds by height between the TTAA heights', () => {
+            expect(at(810.3)).toEqual({ press: 810.3, wdir: 220, wspd: expect.any(Number) });
+            expect(at(810.3)!.wspd).toBeCloseTo(kt(12), 4);
+            expect(at(524.6)!.wdir).toBe(250);
+        });
+
+        it('reports the winds below the surface', () => {
+            expect(decoded.warnings).toEqual([300, 600, 900, 1200].map(hght => ({
+                part: 'PPBB',
+                message: `Wind at ${hght} m lies below the surface, level skipped`
+            })));
+        });
+    });
+
+    describe('malformed input', () => {
+        it('warns when there is no part', () => {
+            expect(decodeTempMessage('NO TEMP HERE').warnings).toEqual([{ message: 'No TTAA, TTBB or PPBB part found' }]);
+        });
+
+        it('skips a part with a malformed header', () => {
+            const decoded = decodeTempMessage('TTAA 5112 72572 99861 21258 15004=');
+            expect(decoded.data).toEqual([]);
+            expect(decoded.warnings).toEqual([{ part: 'TTAA', group: '5112 72572', message: 'Malformed part header, part skipped' }]);
+        });
+
+        it('skips the rest of a part after an unexpected group', () => {
+            const decoded = decodeTempMessage('TTAA 51121 72572 99861 21258 15004 85387 19656 16006 X1234 70062 05266 23010=');
+            expect(decoded.data.map(d => d.press)).toEqual([861, 850]);
+            expect(decoded.warnings).toEqual([{ part: 'TTAA', group: 'X1234', message: 'Unexpected group in TTAA, rest of the part skipped' }]);
+        });
+
+        it('warns about a station that differs between parts', () => {
+            const decoded = decodeTempMessage('TTAA 51121 72572 99861 21258 15004= TTBB 51120 72493 00861 21258=');
+            expect(decoded.warnings).toEqual([{ part: 'TTBB', group: '72493', message: 'Station differs from 72572' }]);
+        });
+    });
+});
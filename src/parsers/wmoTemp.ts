@@ -0,0 +1,323 @@
+import { DecodedTemp, SkewTMeasurement, TempDecodeWarning } from '../types';
+import { windSpeedToMs } from '../utils/conversions';
+
+/**
+ * Pressure (hPa) of the mandatory levels of Part A, keyed by their two-digit indicator
+ */
+const MANDATORY_LEVELS: Record<string, number> = {
+    '00': 1000, '92': 925, '85': 850, '70': 700, '50': 500, '40': 400,
+    '30': 300, '25': 250, '20': 200, '15': 150, '10': 100
+};
+
+const SECTION_END = ['31313', '41414', '51515', '52525', '53535', '54545', '55555', '56565', '57575', '58585', '59595'];
+
+type PartHeader = { day: number, hour: number, knots: boolean, indicator: string, station: string };
+type DecodedPart = { levels: SkewTMeasurement[], surface?: number };
+
+/**
+ * Decodes the "YYGGI IIiii" groups that follow the part identifier
+ */
+function decodeHeader(tokens: string[]): PartHeader | null {
+    if (tokens.length < 3 || !/^\d{4}[\d/]$/.test(tokens[1]) || !/^\d{5}$/.test(tokens[2])) return null;
+
+    const yy = +tokens[1].slice(0, 2);
+    return {
+        day: yy > 50 ? yy - 50 : yy,
+        hour: +tokens[1].slice(2, 4),
+        knots: yy > 50,
+        indicator: tokens[1][4],
+        station: tokens[2]
+    };
+}
+
+/**
+ * Decodes a "TTTDD" temperature and dew point depression group
+ */
+function decodeTemperature(group: string | undefined): { temp?: number, dwpt?: number } {
+    if (!group || !/^[\d/]{5}$/.test(group) || group.startsWith('///')) return {};
+
+    const ttt = +group.slice(0, 3);
+    const temp = (ttt % 2 === 0 ? ttt : -ttt) / 10;
+    const dd = group.slice(3);
+    if (!/^\d\d$/.test(dd) || (+dd > 50 && +dd < 56)) return { temp };
+
+    const depression = +dd <= 50 ? +dd / 10 : +dd - 50;
+    return { temp, dwpt: Math.round((temp - depression) * 10) / 10 };
+}
+
+/**
+ * Decodes a "dddff" wind group; hundreds of the speed are carried in the direction
+ */
+function decodeWind(group: string | undefined, knots: boolean): { wdir?: number, wspd?: number } {
+    if (!group || !/^\d{5}$/.test(group)) return {};
+
+    const ddd = +group.slice(0, 3);
+    const speed = +group.slice(3) + (ddd % 5) * 100;
+    return {
+        wdir: ddd - (ddd % 5),
+        wspd: knots ? windSpeedToMs(speed, 'kt') : speed
+    };
+}
+
+/**
+ * Reconstructs the geopotential height (m) of a mandatory level from its "hhh" digits
+ */
+function decodeHeight(indicator: string, hhh: number): number {
+    switch (indicator) {
+        case '00': return hhh >= 500 ? 500 - hhh : hhh;
+        case '92': return hhh;
+        case '85': return hhh + 1000;
+        case '70': return hhh < 500 ? hhh + 3000 : hhh + 2000;
+        case '50':
+        case '40': return hhh * 10;
+        case '30':
+        case '25': return hhh < 500 ? hhh * 10 + 10000 : hhh * 10;
+        default: return hhh * 10 + 10000;
+    }
+}
+
+/**
+ * Reads a three-digit Part B pressure, where values below 100 stand for 1000-1099 hPa
+ */
+function decodePressure(ppp: string): number {
+    return +ppp < 100 ? +ppp + 1000 : +ppp;
+}
+
+/**
+ * Decodes Part A: surface, mandatory levels, tropopause and maximum wind
+ */
+function decodePartA(tokens: string[], header: PartHeader, warn: (group: string, message: string) => void): DecodedPart {
+    const part: DecodedPart = { levels: [] };
+    const levels = part.levels;
+    const lastWind = header.indicator === '/' ? Infinity : (+header.indicator || 10) * 100;
+    let i = 3;
+
+    while (i < tokens.length) {
+        const group = tokens[i];
+        const id = group.slice(0, 2);
+
+        if (SECTION_END.includes(group)) break;
+
+        if (id === '99' && i === 3) {
+            part.surface = decodePressure(group.slice(2));
+            levels.push({ press: part.surface, ...decodeTemperature(tokens[i + 1]), ...decodeWind(tokens[i + 2], header.knots) });
+            i += 3;
+        } else if (id in MANDATORY_LEVELS) {
+            const press = MANDATORY_LEVELS[id];
+            const level: SkewTMeasurement = { press, ...decodeTemperature(tokens[i + 1]) };
+            if (/^\d{3}$/.test(group.slice(2))) level.hght = decodeHeight(id, +group.slice(2));
+            i += 2;
+            if (press >= lastWind) {
+                Object.assign(level, decodeWind(tokens[i], header.knots));
+                i += 1;
+            }
+            levels.push(level);
+        } else if (id === '88') {
+            if (group === '88999') {
+                i += 1;
+            } else {
+                levels.push({ press: +group.slice(2), ...decodeTemperature(tokens[i + 1]), ...decodeWind(tokens[i + 2], header.knots) });
+                i += 3;
+            }
+        } else if (id === '77' || id === '66') {
+            if (group.slice(2) === '999') {
+                i += 1;
+            } else {
+                levels.push({ press: +group.slice(2), ...decodeWind(tokens[i + 1], header.knots) });
+                i += 2;
+                // Optional "4vbva" vertical wind shear group, not to be confused with the 41414 section
+                if (tokens[i] && /^4\d{4}$/.test(tokens[i]) && !SECTION_END.includes(tokens[i])) i += 1;
+            }
+        } else {
+            warn(group, 'Unexpected group in TTAA, rest of the part skipped');
+            break;
+        }
+    }
+
+    return part;
+}
+
+/**
+ * Decodes Part B: significant temperature levels and, after 21212, significant wind levels
+ */
+function decodePartB(tokens: string[], header: PartHeader, warn: (group: string, message: string) => void): DecodedPart {
+    const part: DecodedPart = { levels: [] };
+    let winds = false;
+    let expected = 0;
+
+    for (let i = 3; i < tokens.length;) {
+        const group = tokens[i];
+        if (SECTION_END.includes(group)) break;
+        if (group === '21212') {
+            winds = true;
+            expected = 0;
+            i += 1;
+            continue;
+        }
+
+        if (!/^\d{5}$/.test(group)) {
+            warn(group, 'Malformed level group in TTBB, rest of the part skipped');
+            break;
+        }
+
+        const nn = group.slice(0, 2);
+        if (nn[0] !== nn[1] || +nn[0] !== expected) {
+            warn(group, `Expected level indicator ${expected}${expected}`);
+        }
+        expected = (+nn[0] + 1) % 10 || 1;
+
+        const press = decodePressure(group.slice(2));
+        if (nn === '00' && !winds) part.surface = press;
+        part.levels.push(winds
+            ? { press, ...decodeWind(tokens[i + 1], header.knots) }
+            : { press, ...decodeTemperature(tokens[i + 1]) });
+        i += 2;
+    }
+
+    return part;
+}
+
+/**
+ * Decodes the winds at fixed heights of a PPBB part
+ */
+function decodeHeightWinds(tokens: string[], header: PartHeader, warn: (group: string, message: string) => void): Array<{ hght: number, wdir?: number, wspd?: number }> {
+    const winds: Array<{ hght: number, wdir?: number, wspd?: number }> = [];
+
+    for (let i = 3; i < tokens.length;) {
+        const group = tokens[i];
+        if (SECTION_END.includes(group)) break;
+        if (!/^9\d[\d/]{3}$/.test(group)) {
+            warn(group, 'Expected a 9tuuu height group in PPBB, rest of the part skipped');
+            break;
+        }
+
+        // Heights are given in units of 300 m, tens in t and units in each u
+        const heights = group.slice(2).split('')
+            .filter(u => u !== '/')
+            .map(u => (+group[1] * 10 + +u) * 300);
+        heights.forEach((hght, k) => winds.push({ hght, ...decodeWind(tokens[i + 1 + k], header.knots) }));
+        i += 1 + heights.length;
+    }
+
+    return winds;
+}
+
+/**
+ * Converts a height to pressure by interpolating log-pressure linearly between levels of known height
+ */
+function pressureAtHeight(levels: SkewTMeasurement[], hght: number): number | undefined {
+    const known = levels
+        .filter(d => typeof d.hght === 'number')
+        .sort((a, b) => a.hght! - b.hght!);
+
+    for (let i = 0; i < known.length - 1; i++) {
+        const lo = known[i];
+        const hi = known[i + 1];
+        if (hght >= lo.hght! && hght <= hi.hght!) {
+            const f = (hght - lo.hght!) / (hi.hght! - lo.hght!);
+            return Math.exp(Math.log(lo.press) + f * Math.log(hi.press / lo.press));
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Decodes a WMO FM-35 TEMP bulletin and merges its mandatory-level (TTAA),
+ * significant-level (TTBB) and wind-by-height (PPBB) parts into one profile.
+ * PPBB heights are placed on the pressure axis by interpolating between the
+ * heights of the TTAA levels; a height of zero is taken as the surface.
+ *
+ * @param message One or more parts, separated by whitespace and optionally terminated by "="
+ * @returns Station number, observation day and hour, measurement points from the surface up
+ * (wind in m/s) and any warnings raised while decoding
+ */
+export function decodeTempMessage(message: string): DecodedTemp {
+    const warnings: TempDecodeWarning[] = [];
+    const tokens = message.replace(/=/g, ' ').trim().split(/\s+/);
+    const parts: string[][] = [];
+
+    tokens.forEach(token => {
+        if (/^(TT|PP)[A-D]{2}$/.test(token)) parts.push([token]);
+        else if (parts.length) parts[parts.length - 1].push(token);
+    });
+
+    if (!parts.length) {
+        warnings.push({ message: 'No TTAA, TTBB or PPBB part found' });
+    }
+
+    const levels: SkewTMeasurement[] = [];
+    let surface: number | undefined;
+    const heightWinds: Array<{ hght: number, wdir?: number, wspd?: number }> = [];
+    const result: DecodedTemp = { station: { id: '' }, data: [], warnings };
+
+    parts.forEach(part => {
+        const name = part[0];
+        const warn = (group: string, msg: string) => warnings.push({ part: name, group, message: msg });
+        const header = decodeHeader(part);
+        if (!header) {
+            warn(part.slice(1, 3).join(' '), 'Malformed part header, part skipped');
+            return;
+        }
+
+        if (!result.station.id) {
+            result.station = { id: header.station, number: header.station };
+            result.day = header.day;
+            result.hour = header.hour;
+        } else if (header.station !== result.station.id) {
+            warn(header.station, `Station differs from ${result.station.id}`);
+        }
+
+        let decoded: DecodedPart | null = null;
+        switch (name) {
+            case 'TTAA':
+                decoded = decodePartA(part, header, warn);
+                break;
+            case 'TTBB':
+                decoded = decodePartB(part, header, warn);
+                break;
+            case 'PPBB':
+                heightWinds.push(...decodeHeightWinds(part, header, warn));
+                break;
+            default:
+                warn(name, 'Unsupported part, skipped');
+        }
+
+        if (decoded) {
+            levels.push(...decoded.levels);
+            if (surface === undefined) surface = decoded.surface;
+        }
+    });
+
+    // Place the winds given by height on the pressure axis
+    heightWinds.forEach(wind => {
+        const press = wind.hght === 0 ? surface : pressureAtHeight(levels, wind.hght);
+        if (press === undefined) {
+            warnings.push({ part: 'PPBB', message: `No pressure for wind at ${wind.hght} m, level skipped` });
+            return;
+        }
+        if (surface !== undefined && press > surface) {
+            warnings.push({ part: 'PPBB', message: `Wind at ${wind.hght} m lies below the surface, level skipped` });
+            return;
+        }
+        levels.push({ press, wdir: wind.wdir, wspd: wind.wspd });
+    });
+
+    // Merge levels reported in several parts, the first value of each field wins
+    const merged = new Map<number, SkewTMeasurement>();
+    levels.forEach(level => {
+        const key = Math.round(level.press * 10) / 10;
+        const existing = merged.get(key) || { press: key };
+        (Object.keys(level) as Array<keyof SkewTMeasurement>).forEach(field => {
+            if (existing[field] === undefined && level[field] !== undefined) existing[field] = level[field];
+        });
+        merged.set(key, existing);
+    });
+
+    // Levels below ground carry a height but nothing else
+    result.data = Array.from(merged.values())
+        .filter(d => surface === undefined || d.press <= surface)
+        .sort((a, b) => b.press - a.press);
+
+    return result;
+}
@@ -0,0 +1,54 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseWyomingSounding } from './wyoming';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('parseWyomingSounding', () => {
+    const page = fixture('wyoming-72572-2023060112.html');
+
+    it('reads the station from the title and the station information', () => {
+        const { station } = parseWyomingSounding(page);
+        expect(station).toEqual({
+            id: 'SLC',
+            number: '72572',
+            name: 'Salt Lake City',
+            time: '2023-06-01T12:00:00.000Z',
+            latitude: 40.77,
+            longitude: -111.95,
+            elevation: 1289
+        });
+    });
+
+    it('reads every level of the table with wind speeds in m/s', () => {
+        const { data } = parseWyomingSounding(page);
+        expect(data.map(d => d.press)).toEqual([861, 850, 812, 700, 500, 400, 300]);
+        expect(data[0]).toEqual({ press: 861, hght: 1289, temp: 21.2, dwpt: 12.7, wdir: 150, wspd: expect.any(Number) });
+        expect(data[0].wspd).toBeCloseTo(4 * 0.514444, 4);
+        expect(data[6].wspd).toBeCloseTo(45 * 0.514444, 4);
+    });
+
+    it('leaves blank columns missing', () => {
+        const { data } = parseWyomingSounding(page);
+        expect(data[2]).toEqual({ press: 812, hght: 1750, temp: 16.4, wdir: 185, wspd: expect.any(Number) });
+        expect(data[5]).toEqual({ press: 400, hght: 7430, temp: -23.9 });
+    });
+
+    it('parses the text content without the HTML', () => {
+        const text = page.replace(/<[^>]*>/g, '');
+        expect(parseWyomingSounding(text)).toEqual(parseWyomingSounding(page));
+    });
+
+    it('rejects input without a data table', () => {
+        expect(() => parseWyomingSounding('<HTML><BODY>Can\'t get 72572 SLC Observations</BODY></HTML>'))
+            .toThrow('No TEXT:LIST data table found');
+        expect(() => parseWyomingSounding('')).toThrow();
+    });
+
+    it('skips garbled rows without ending the table', () => {
+        const broken = page.replace('  850.0   1387', '    ***   1387');
+        const { station, data } = parseWyomingSounding(broken);
+        expect(data.map(d => d.press)).toEqual([861, 812, 700, 500, 400, 300]);
+        expect(station.elevation).toBe(1289);
+    });
+});
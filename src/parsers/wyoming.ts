@@ -0,0 +1,121 @@
+import { ParsedSounding, SkewTMeasurement, StationMetadata } from '../types';
+import { windSpeedToMs } from '../utils/conversions';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Removes HTML tags and entities, keeping the preformatted text layout
+ */
+function stripHtml(input: string): string {
+    return input
+        .replace(/<[^>]*>/g, '\n')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>');
+}
+
+/**
+ * Reads station and time from the "72572 SLC Salt Lake City Observations at 12Z 01 Jun 2023" title
+ */
+function parseTitle(line: string, station: StationMetadata): void {
+    const match = line.match(/^\s*(\d+)\s+(\S+)\s+(.*?)\s*Observations at (\d{2})Z (\d{2}) (\w{3}) (\d{4})/);
+    if (!match) return;
+
+    station.number = match[1];
+    station.id = match[2];
+    if (match[3]) station.name = match[3];
+
+    const month = MONTHS.indexOf(match[6]);
+    if (month >= 0) {
+        station.time = new Date(Date.UTC(+match[7], month, +match[5], +match[4])).toISOString();
+    }
+}
+
+/**
+ * Reads the "Station identifier: SLC" block that follows the data table
+ */
+function parseStationInfo(lines: string[], station: StationMetadata): void {
+    const info: Record<string, string> = {};
+    lines.forEach(line => {
+        const match = line.match(/^\s*([A-Za-z ]+):\s*(\S+)\s*$/);
+        if (match) info[match[1].trim()] = match[2];
+    });
+
+    if (info['Station identifier']) station.id = info['Station identifier'];
+    if (info['Station number']) station.number = info['Station number'];
+    if (info['Station latitude']) station.latitude = parseFloat(info['Station latitude']);
+    if (info['Station longitude']) station.longitude = parseFloat(info['Station longitude']);
+    if (info['Station elevation']) station.elevation = parseFloat(info['Station elevation']);
+    if (!station.time && info['Observation time']) {
+        const t = info['Observation time'].match(/^(\d{2})(\d{2})(\d{2})\/(\d{2})(\d{2})$/);
+        if (t) station.time = new Date(Date.UTC(2000 + +t[1], +t[2] - 1, +t[3], +t[4], +t[5])).toISOString();
+    }
+}
+
+/**
+ * Parses a University of Wyoming upper-air sounding in the TEXT:LIST format.
+ * Accepts either the raw HTML page or its text content.
+ *
+ * @param input Contents of the TEXT:LIST page
+ * @returns Station metadata and the measurement points, with wind speed converted to m/s
+ * @throws Error if no data table is found
+ */
+export function parseWyomingSounding(input: string): ParsedSounding {
+    const lines = stripHtml(input).split(/\r?\n/);
+    const station: StationMetadata = { id: '' };
+    const headerIndex = lines.findIndex(l => /^\s*PRES\s+HGHT\s+TEMP/.test(l));
+    if (headerIndex < 0) {
+        throw new Error('No TEXT:LIST data table found in Wyoming sounding');
+    }
+
+    const title = lines.slice(0, headerIndex).find(l => /Observations at/.test(l));
+    if (title) parseTitle(title, station);
+
+    // Columns are right-aligned in 7-character fields ending where each header name ends
+    const header = lines[headerIndex];
+    const columns: Array<{ name: string, start: number, end: number }> = [];
+    const re = /\S+/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(header)) !== null) {
+        const end = m.index + m[0].length;
+        columns.push({ name: m[0], start: Math.max(0, end - 7), end });
+    }
+
+    const data: SkewTMeasurement[] = [];
+    let started = false;
+    let i = headerIndex + 1;
+
+    for (; i < lines.length; i++) {
+        const line = lines[i];
+
+        // Skip the units row, dashed separators and garbled rows; the table ends at the
+        // first blank or text line after it started
+        if (!/^\s*\d/.test(line)) {
+            if (started && (line.trim() === '' || /[A-Za-z]/.test(line))) break;
+            continue;
+        }
+        started = true;
+
+        const values: Record<string, number | undefined> = {};
+        columns.forEach(c => {
+            const text = line.slice(c.start, c.end).trim();
+            values[c.name] = text === '' ? undefined : parseFloat(text);
+        });
+
+        const press = values.PRES;
+        if (press === undefined || isNaN(press)) continue;
+
+        const level: SkewTMeasurement = { press };
+        if (values.HGHT !== undefined) level.hght = values.HGHT;
+        if (values.TEMP !== undefined) level.temp = values.TEMP;
+        if (values.DWPT !== undefined) level.dwpt = values.DWPT;
+        if (values.DRCT !== undefined) level.wdir = values.DRCT;
+        if (values.SKNT !== undefined) level.wspd = windSpeedToMs(values.SKNT, 'kt');
+        else if (values.SPED !== undefined) level.wspd = values.SPED;
+        data.push(level);
+    }
+
+    parseStationInfo(lines.slice(i), station);
+
+    return { station, data };
+}
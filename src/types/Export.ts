@@ -0,0 +1,81 @@
+import { SkewTMeasurement } from './SkewTMeasurement';
+import { SkewTTheme } from './Theme';
+import { SkewTUnits } from './Units';
+
+/**
+ * Export formats: the chart as SVG or PNG image, or the sounding as CSV or JSON
+ */
+export type SkewTExportFormat = 'svg' | 'png' | 'csv' | 'json';
+
+/**
+ * Options of the export menu and of the SkewT ref methods
+ */
+export type SkewTExportOptions = {
+    /**
+     * Formats offered in the download menu, in menu order. With a single format the
+     * button exports directly.
+     * @default ["png", "svg", "csv", "json"]
+     */
+    formats?: SkewTExportFormat[];
+
+    /**
+     * Pixel ratio of PNG images, e.g. 2 or 3 for sharp images on high-DPI screens
+     * @default 2
+     */
+    pngScale?: number;
+
+    /**
+     * File name without extension. The placeholders {site}, {source}, {date}
+     * (YYYY-MM-DD), {time} (HHmm) and {timestamp} (YYYYMMDDTHHmmssZ) are replaced,
+     * dates and times in UTC at the moment of the export.
+     * @default "SkewT-{site}-{source}"
+     */
+    filename?: string;
+};
+
+/**
+ * Methods of a SkewT ref, e.g. for a custom toolbar
+ */
+export interface SkewTHandle {
+    /**
+     * Saves the chart or its data as a file
+     */
+    download(format: SkewTExportFormat, options?: SkewTExportOptions): Promise<void>;
+
+    /**
+     * Returns the chart or its data as a Blob, without saving it
+     */
+    toBlob(format: SkewTExportFormat, options?: SkewTExportOptions): Promise<Blob>;
+}
+
+/**
+ * Drawn chart and its sounding, as passed to the export functions
+ */
+export type SkewTExportSource = {
+    /**
+     * Svg element the chart was rendered into
+     */
+    svg: SVGSVGElement;
+
+    /**
+     * Sounding of the chart, exported as CSV or JSON
+     */
+    data: SkewTMeasurement[];
+
+    siteName: string;
+    sourceName: string;
+
+    /**
+     * Size of the chart in pixels, without the title line
+     */
+    width: number;
+    height: number;
+
+    theme: SkewTTheme;
+
+    /**
+     * Units of the exported data
+     * @default DEFAULT_UNITS
+     */
+    units?: SkewTUnits;
+};
@@ -0,0 +1,77 @@
+import { SkewTMeasurement } from './SkewTMeasurement';
+import { WindSpeedUnit } from '../constants';
+import { SkewTTheme } from './Theme';
+
+/**
+ * Wind vector split into its eastward (u) and northward (v) components
+ */
+export type WindComponents = {
+    /**
+     * Eastward component
+     */
+    u: number;
+
+    /**
+     * Northward component
+     */
+    v: number;
+};
+
+/**
+ * Bunkers (2000) storm motion estimates, in m/s
+ */
+export type StormMotion = {
+    /**
+     * Right-moving supercell motion
+     */
+    right: WindComponents;
+
+    /**
+     * Left-moving supercell motion
+     */
+    left: WindComponents;
+
+    /**
+     * 0-6 km mean wind
+     */
+    mean: WindComponents;
+};
+
+/**
+ * Configuration options for the Hodograph component
+ */
+export interface HodographProps {
+    /**
+     * Array of measurement points; only levels with wdir and wspd are plotted
+     */
+    data: SkewTMeasurement[];
+
+    /**
+     * Width and height of the chart in pixels
+     * @default 250
+     */
+    size?: number;
+
+    /**
+     * Unit for the range rings
+     * @default "kmh"
+     */
+    speedUnit?: WindSpeedUnit;
+
+    /**
+     * Whether to mark the Bunkers right and left storm motion
+     * @default true
+     */
+    showStormMotion?: boolean;
+
+    /**
+     * Colours, strokes and fonts
+     * @default LIGHT_THEME
+     */
+    theme?: SkewTTheme;
+
+    /**
+     * Custom class name for the SVG element
+     */
+    className?: string;
+}
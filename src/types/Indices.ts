@@ -0,0 +1,60 @@
+/**
+ * Stability indices and parcel levels computed from a sounding.
+ * Any value that cannot be computed from the available data is left undefined.
+ */
+export type StabilityIndices = {
+    /**
+     * Lifted Index of the surface parcel at 500 hPa in °C
+     */
+    liftedIndex?: number;
+
+    /**
+     * Showalter Index (850 hPa parcel lifted to 500 hPa) in °C
+     */
+    showalterIndex?: number;
+
+    /**
+     * K-Index in °C
+     */
+    kIndex?: number;
+
+    /**
+     * Total Totals Index in °C
+     */
+    totalTotals?: number;
+
+    /**
+     * Severe Weather Threat (SWEAT) Index
+     */
+    sweatIndex?: number;
+
+    /**
+     * Surface-based CAPE in J/kg
+     */
+    cape?: number;
+
+    /**
+     * Surface-based CIN in J/kg (reported as a positive number)
+     */
+    cin?: number;
+
+    /**
+     * Lifting condensation level
+     */
+    lcl?: { press: number, hght?: number };
+
+    /**
+     * Level of free convection
+     */
+    lfc?: { press: number, hght?: number };
+
+    /**
+     * Equilibrium level
+     */
+    el?: { press: number, hght?: number };
+
+    /**
+     * Precipitable water in millimetres
+     */
+    precipitableWater?: number;
+};
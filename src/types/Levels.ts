@@ -0,0 +1,101 @@
+/**
+ * A level of a sounding
+ */
+export type SoundingLevel = {
+    /**
+     * Pressure level in hectopascals (hPa)
+     */
+    press: number;
+
+    /**
+     * Height in meters above sea level, when the sounding has heights there
+     */
+    hght?: number;
+};
+
+/**
+ * A level where the temperature crosses 0 °C
+ */
+export type FreezingLevel = SoundingLevel & {
+    /**
+     * "cooling" where the temperature falls below 0 °C going up, "warming" where it
+     * rises above it again, at the bottom of a warm nose
+     */
+    crossing: 'cooling' | 'warming';
+};
+
+/**
+ * A layer of supercooled cloud with a risk of icing
+ */
+export type IcingLayer = {
+    /**
+     * Bottom of the layer
+     */
+    bottom: SoundingLevel;
+
+    /**
+     * Top of the layer
+     */
+    top: SoundingLevel;
+};
+
+/**
+ * Kind of a sounding feature
+ * - `cloud`: saturated or nearly saturated layer, from cloud base to cloud top
+ * - `inversion`: layer where the temperature increases with height
+ * - `isothermal`: layer where the temperature stays nearly constant with height
+ * - `tropopause`: the WMO lapse-rate tropopause, a single level
+ */
+export type SoundingFeatureType = 'cloud' | 'inversion' | 'isothermal' | 'tropopause';
+
+/**
+ * A layer or level of interest in a sounding
+ */
+export type SoundingFeature = {
+    /**
+     * Kind of feature
+     */
+    type: SoundingFeatureType;
+
+    /**
+     * Bottom of the layer
+     */
+    bottom: SoundingLevel;
+
+    /**
+     * Top of the layer; equal to the bottom for the tropopause
+     */
+    top: SoundingLevel;
+
+    /**
+     * Temperature change from bottom to top in °C, for inversions and isothermal layers
+     */
+    temperatureChange?: number;
+};
+
+/**
+ * Temperature trace derived from the temperature and dew point
+ * - `wetBulb`: wet-bulb temperature
+ * - `virtualTemp`: virtual temperature
+ */
+export type DerivedTrace = 'wetBulb' | 'virtualTemp';
+
+/**
+ * Temperatures derived from the temperature and dew point of a level
+ */
+export type DerivedTemperatures = {
+    /**
+     * Pressure level in hectopascals (hPa)
+     */
+    press: number;
+
+    /**
+     * Wet-bulb temperature in degrees Celsius
+     */
+    wetBulb: number;
+
+    /**
+     * Virtual temperature in degrees Celsius
+     */
+    virtualTemp: number;
+};
@@ -0,0 +1,79 @@
+/**
+ * A single level of a lifted parcel trace
+ */
+export type ParcelLevel = {
+    /**
+     * Pressure level in hectopascals (hPa)
+     */
+    press: number;
+
+    /**
+     * Parcel temperature in degrees Celsius
+     */
+    temp: number;
+
+    /**
+     * Environmental temperature at the same level in degrees Celsius
+     */
+    envTemp: number;
+};
+
+/**
+ * A region enclosed between the parcel trace and the environmental temperature
+ */
+export type ParcelArea = {
+    /**
+     * "cape" where the parcel is warmer than the environment, "cin" where it is colder
+     */
+    type: 'cape' | 'cin';
+
+    /**
+     * Levels bounding the area, ordered from the bottom up
+     */
+    levels: ParcelLevel[];
+
+    /**
+     * Magnitude of the area in J/kg
+     */
+    energy: number;
+};
+
+/**
+ * Result of lifting a parcel through a sounding
+ */
+export type ParcelTrace = {
+    /**
+     * Parcel levels ordered from the bottom up, including the LCL
+     */
+    levels: ParcelLevel[];
+
+    /**
+     * Lifting condensation level
+     */
+    lcl: { press: number, temp: number };
+
+    /**
+     * Pressure of the level of free convection in hPa, if any
+     */
+    lfc?: number;
+
+    /**
+     * Pressure of the equilibrium level in hPa, if any
+     */
+    el?: number;
+
+    /**
+     * Convective available potential energy in J/kg
+     */
+    cape: number;
+
+    /**
+     * Convective inhibition in J/kg (reported as a positive number)
+     */
+    cin: number;
+
+    /**
+     * Shaded CAPE and CIN regions
+     */
+    areas: ParcelArea[];
+};
@@ -0,0 +1,73 @@
+import { SkewTMeasurement } from './SkewTMeasurement';
+
+/**
+ * An additional named profile drawn on top of the diagram, such as a model run
+ * or an ensemble member
+ */
+export type SkewTProfile = {
+    /**
+     * Name shown in the legend
+     */
+    name: string;
+
+    /**
+     * Measurement points of the profile
+     */
+    data: SkewTMeasurement[];
+
+    /**
+     * Colour of the temperature and dew point lines
+     * @default next colour of d3.schemeCategory10
+     */
+    color?: string;
+
+    /**
+     * Line width in pixels
+     * @default 2 (1 for ensemble members)
+     */
+    strokeWidth?: number;
+
+    /**
+     * SVG stroke-dasharray of both lines, e.g. "4,2"
+     */
+    dashArray?: string;
+
+    /**
+     * Line opacity between 0 and 1
+     * @default 0.9 (0.4 for ensemble members)
+     */
+    opacity?: number;
+
+    /**
+     * Whether the profile is an ensemble member. Members share a single legend
+     * entry and feed the ensemble mean and spread.
+     * @default false
+     */
+    member?: boolean;
+};
+
+/**
+ * Ensemble statistics drawn from the profiles marked as members
+ */
+export type SkewTEnsembleOptions = {
+    /**
+     * Whether to draw the ensemble mean temperature and dew point
+     * @default true
+     */
+    mean?: boolean;
+
+    /**
+     * Lower and upper percentiles (0-100) of the shaded spread band, e.g. [10, 90].
+     * No band is drawn when omitted.
+     */
+    spread?: [number, number];
+};
+
+/**
+ * Ensemble mean and percentile bounds, one entry per pressure level
+ */
+export type EnsembleStatistics = {
+    mean: SkewTMeasurement[];
+    lower: SkewTMeasurement[];
+    upper: SkewTMeasurement[];
+};
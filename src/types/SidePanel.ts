@@ -0,0 +1,36 @@
+/**
+ * Variables of the side panel: wind speed, relative humidity, temperature lapse rate
+ * and equivalent potential temperature
+ */
+export type SidePanelVariable = 'windSpeed' | 'relativeHumidity' | 'lapseRate' | 'thetaE';
+
+/**
+ * Options of the side panel next to the wind barbs
+ */
+export type SkewTSidePanelOptions = {
+    /**
+     * Variable plotted against pressure
+     */
+    variable: SidePanelVariable;
+
+    /**
+     * Width of the panel in pixels; the diagram gets narrower to make room
+     * @default 80
+     */
+    width?: number;
+};
+
+/**
+ * A value of a side panel profile; lapse rates belong to the middle of their layer
+ */
+export type SidePanelPoint = {
+    /**
+     * Pressure in hPa
+     */
+    press: number;
+
+    /**
+     * Wind speed in m/s, relative humidity in %, lapse rate in K/km or theta-e in K
+     */
+    value: number;
+};
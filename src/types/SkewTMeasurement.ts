@@ -1,3 +1,11 @@
+import type { Ref } from 'react';
+import { SkewTEnsembleOptions, SkewTProfile } from './Profile';
+import { SkewTTheme } from './Theme';
+import { SkewTExportOptions, SkewTHandle } from './Export';
+import { SoundingWarning } from './Sounding';
+import { SkewTSidePanelOptions } from './SidePanel';
+import { HeightUnit, PressureUnit, TemperatureUnit, WindSpeedUnit } from '../constants';
+
 /**
  * Represents a single measurement point in a SkewT diagram
  */
@@ -42,6 +50,16 @@ export interface SkewTProps {
      */
     data: SkewTMeasurement[];
 
+    /**
+     * Additional named profiles drawn underneath the main profile, e.g. model runs or ensemble members
+     */
+    profiles?: SkewTProfile[];
+
+    /**
+     * Ensemble mean and spread computed from the profiles marked as members
+     */
+    ensemble?: SkewTEnsembleOptions;
+
     /**
      * Name of the site where the measurements were taken
      */
@@ -68,7 +86,210 @@ export interface SkewTProps {
      * Unit for wind speed display
      * @default "kmh"
      */
-    speedUnit?: "ms" | "kt" | "kmh";
+    speedUnit?: WindSpeedUnit;
+
+    /**
+     * Unit for temperatures on the axis, in tooltips and in data exports
+     * @default "C"
+     */
+    temperatureUnit?: TemperatureUnit;
+
+    /**
+     * Unit for heights in tooltips, the indices box and data exports
+     * @default "m"
+     */
+    heightUnit?: HeightUnit;
+
+    /**
+     * Unit for pressures on the axes, in the indices box and in data exports. The
+     * pressure props (basePressure, pressureLines, …) stay in hPa.
+     * @default "hPa"
+     */
+    pressureUnit?: PressureUnit;
+
+    /**
+     * Pressure at the bottom of the diagram in hPa
+     * @default 1050
+     */
+    basePressure?: number;
+
+    /**
+     * Pressure at the top of the diagram in hPa. When omitted, the top is placed 10 hPa
+     * above the highest level of the data, but not higher than 50 hPa.
+     */
+    topPressure?: number;
+
+    /**
+     * Temperature range of the x-axis at the bottom of the diagram in °C, whatever the
+     * temperatureUnit
+     * @default [-70, 50]
+     */
+    temperatureRange?: [number, number];
+
+    /**
+     * Angle of the skewed isotherms in degrees
+     * @default 55
+     */
+    skewAngle?: number;
+
+    /**
+     * Pressure levels (hPa) of the horizontal grid lines and left axis labels
+     * @default [1000, 850, 700, 500, 300, 200, 100, 50]
+     */
+    pressureLines?: number[];
+
+    /**
+     * Pressure levels (hPa) of the tick marks on the inner axis
+     * @default [950, 850, 750, 650, 550, 450, 350, 250, 150, 50]
+     */
+    pressureTicks?: number[];
+
+    /**
+     * Whether to lift a parcel from the lowest level and shade its CAPE and CIN
+     * @default true
+     */
+    showParcel?: boolean;
+
+    /**
+     * Whether to draw the saturated (pseudo) adiabats in the background grid
+     * @default true
+     */
+    showMoistAdiabats?: boolean;
+
+    /**
+     * Whether to draw the saturation mixing-ratio lines in the background grid
+     * @default true
+     */
+    showMixingRatioLines?: boolean;
+
+    /**
+     * Whether to show the stability indices box below the legend
+     * @default false
+     */
+    showIndices?: boolean;
+
+    /**
+     * Whether to show a hodograph inset in the upper right corner of the diagram
+     * @default false
+     */
+    showHodograph?: boolean;
+
+    /**
+     * Whether to mark the levels where the temperature crosses 0 °C on the 0 °C isotherm,
+     * all of them when a warm nose gives several
+     * @default false
+     */
+    showFreezingLevels?: boolean;
+
+    /**
+     * Whether to mark the wet-bulb zero, the lowest level where the wet-bulb temperature
+     * falls to 0 °C
+     * @default false
+     */
+    showWetBulbZero?: boolean;
+
+    /**
+     * Whether to shade layers between 0 and -20 °C with a small temperature–dew point
+     * spread, where supercooled cloud makes icing likely
+     * @default false
+     */
+    showIcingLayers?: boolean;
+
+    /**
+     * Whether to bracket cloud layers, inversions, isothermal layers and the tropopause
+     * along the left axis, see soundingFeatures
+     * @default false
+     */
+    showFeatures?: boolean;
+
+    /**
+     * Whether to draw the wet-bulb temperature trace
+     * @default false
+     */
+    showWetBulb?: boolean;
+
+    /**
+     * Whether to draw the virtual temperature trace
+     * @default false
+     */
+    showVirtualTemperature?: boolean;
+
+    /**
+     * Reference of the height axis along the right edge, in the height unit: above mean
+     * sea level or above the lowest level. Heights come from the sounding, filled in
+     * where missing; beyond them, or without any, from the ICAO standard atmosphere.
+     * No height axis when unset.
+     */
+    heightAxis?: 'msl' | 'agl';
+
+    /**
+     * Whether to add a flight-level scale, the standard atmosphere pressure altitude
+     * in hundreds of feet, along the right edge
+     * @default false
+     */
+    showFlightLevels?: boolean;
+
+    /**
+     * Narrow panel right of the wind barbs that plots wind speed, relative humidity, lapse
+     * rate or theta-e against the pressure scale of the diagram, zoom included. The hover
+     * crosshair moves in step over the diagram and the panel. No panel when unset.
+     */
+    sidePanel?: SkewTSidePanelOptions;
+
+    /**
+     * Hemisphere of the station. In the Southern Hemisphere the wind barb feathers
+     * are drawn on the other side of the stem.
+     * @default "north"
+     */
+    hemisphere?: 'north' | 'south';
+
+    /**
+     * Minimum vertical distance between wind barbs in pixels; levels closer to the
+     * barb below them are skipped. 0 draws a barb at every level.
+     * @default 15
+     */
+    barbSpacing?: number;
+
+    /**
+     * Heights above ground level in meters at which to draw the wind barbs, with winds
+     * interpolated from the sounding; missing heights are computed with the hypsometric
+     * equation. By default the barbs are drawn at the data levels.
+     */
+    barbHeights?: number[];
+
+    /**
+     * Whether the diagram can be zoomed with the mouse wheel or a pinch and panned by
+     * dragging; a reset button appears below the download button
+     * @default false
+     */
+    zoomable?: boolean;
+
+    /**
+     * Whether the surface temperature and dew point can be changed, by dragging their
+     * points on the diagram or typing values below it. The parcel and indices follow
+     * the change; the data prop itself is left untouched.
+     * @default false
+     */
+    editableSurface?: boolean;
+
+    /**
+     * Callback function called with the modified sounding after a surface edit, and
+     * with the original data when the edit is reset
+     */
+    onDataChange?: (data: SkewTMeasurement[]) => void;
+
+    /**
+     * Callback function called with the problems found in the data and profiles, see
+     * normalizeSounding. The component calls it once for each new data or profiles, not on
+     * every redraw; renderSkewTToSvgString calls it once per image. It is not called for clean input.
+     */
+    onDataWarning?: (warnings: SoundingWarning[]) => void;
+
+    /**
+     * Colours, strokes and fonts, e.g. LIGHT_THEME or DARK_THEME
+     * @default LIGHT_THEME
+     */
+    theme?: SkewTTheme;
 
     /**
      * Custom class name for the SVG element
@@ -76,7 +297,31 @@ export interface SkewTProps {
     className?: string;
 
     /**
-     * Callback function called when download is clicked
+     * Formats, PNG scale and file name template of the download menu
+     */
+    exportOptions?: SkewTExportOptions;
+
+    /**
+     * Callback function called when download is clicked. It receives the chart image,
+     * title included, as SVG markup instead of the export menu.
      */
     onDownload?: (svgString: string) => void;
-}
\ No newline at end of file
+
+    /**
+     * Ref to the export methods, see SkewTHandle
+     */
+    ref?: Ref<SkewTHandle>;
+}
+
+/**
+ * Options for rendering a chart without the SkewT component: its props without the
+ * data. The interactive props (zoomable, editableSurface, exportOptions, onDownload,
+ * onDataChange) have no effect on a static image.
+ */
+export type SkewTRenderOptions = Omit<SkewTProps, 'data' | 'ref'> & {
+    /**
+     * Prefix of the ids in the svg, i.e. the clip path and the wind barb symbols
+     * @default "skewt"
+     */
+    idPrefix?: string;
+};
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { SkewTMeasurement } from './SkewTMeasurement';
+
+/**
+ * Station metadata read from a sounding file
+ */
+export type StationMetadata = {
+    /**
+     * Station identifier (ICAO or IGRA2 id)
+     */
+    id: string;
+
+    /**
+     * WMO station number
+     */
+    number?: string;
+
+    /**
+     * Station name, when the format provides one
+     */
+    name?: string;
+
+    /**
+     * Latitude in decimal degrees
+     */
+    latitude?: number;
+
+    /**
+     * Longitude in decimal degrees
+     */
+    longitude?: number;
+
+    /**
+     * Station elevation in meters above sea level
+     */
+    elevation?: number;
+
+    /**
+     * Nominal observation time as an ISO 8601 string (UTC)
+     */
+    time?: string;
+};
+
+/**
+ * A parsed sounding, ready to be passed to SkewT
+ */
+export type ParsedSounding = {
+    /**
+     * Station the sounding was launched from; `name || id` is a suitable siteName
+     */
+    station: StationMetadata;
+
+    /**
+     * Measurement points ordered from the surface up
+     */
+    data: SkewTMeasurement[];
+};
+
+/**
+ * A problem found while decoding a TEMP bulletin
+ */
+export type TempDecodeWarning = {
+    /**
+     * Part identifier, e.g. "TTAA"
+     */
+    part?: string;
+
+    /**
+     * Offending code group
+     */
+    group?: string;
+
+    /**
+     * Description of the problem
+     */
+    message: string;
+};
+
+/**
+ * A decoded WMO TEMP bulletin. TEMP carries no month or year, only the day and hour.
+ */
+export type DecodedTemp = ParsedSounding & {
+    /**
+     * Day of the month of the observation
+     */
+    day?: number;
+
+    /**
+     * Nominal hour (UTC) of the observation
+     */
+    hour?: number;
+
+    /**
+     * Problems found while decoding; the affected groups are skipped
+     */
+    warnings: TempDecodeWarning[];
+};
+
+/**
+ * Kind of problem found by normalizeSounding
+ * - `invalid-pressure`: the level has no usable pressure and was dropped
+ * - `out-of-range`: a value is not a number or physically impossible and was removed
+ * - `dewpoint-above-temperature`: the dew point was lowered to the temperature
+ * - `duplicate-level`: a repeated pressure level was merged into the first one
+ * - `height-not-increasing`: a height not above the level below was removed
+ * - `unsorted`: the levels were not ordered by pressure
+ */
+export type SoundingWarningCode =
+    | 'invalid-pressure'
+    | 'out-of-range'
+    | 'dewpoint-above-temperature'
+    | 'duplicate-level'
+    | 'height-not-increasing'
+    | 'unsorted';
+
+/**
+ * A problem found in the input sounding, and how it was corrected
+ */
+export type SoundingWarning = {
+    /**
+     * Kind of problem
+     */
+    code: SoundingWarningCode;
+
+    /**
+     * Description of the problem and the correction
+     */
+    message: string;
+
+    /**
+     * Index of the offending point in the input array
+     */
+    index?: number;
+
+    /**
+     * Pressure of the offending level in hPa
+     */
+    press?: number;
+
+    /**
+     * Offending field
+     */
+    field?: keyof SkewTMeasurement;
+
+    /**
+     * Offending value as given
+     */
+    value?: unknown;
+
+    /**
+     * Name of the profile, for warnings about the profiles prop
+     */
+    profile?: string;
+};
+
+/**
+ * A sounding cleaned by normalizeSounding
+ */
+export type NormalizedSounding = {
+    /**
+     * Measurement points ordered from the surface up, one per pressure level
+     */
+    data: SkewTMeasurement[];
+
+    /**
+     * Problems found in the input; empty for a clean sounding
+     */
+    warnings: SoundingWarning[];
+};
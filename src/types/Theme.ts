@@ -0,0 +1,182 @@
+/**
+ * Stroke of one family of lines
+ */
+export type SkewTLineStyle = {
+    /**
+     * Stroke colour
+     */
+    color: string;
+
+    /**
+     * Stroke width in pixels
+     */
+    width: number;
+
+    /**
+     * SVG stroke-dasharray, e.g. "5,3"
+     */
+    dashArray?: string;
+
+    /**
+     * Stroke opacity between 0 and 1
+     */
+    opacity?: number;
+};
+
+/**
+ * Colours, strokes and fonts of a SkewT chart
+ */
+export type SkewTTheme = {
+    /**
+     * Fill behind the chart, also part of exported images
+     */
+    background: string;
+
+    /**
+     * Fonts; the family is inherited from the page when omitted
+     */
+    font: {
+        family?: string;
+        size: number;
+        labelSize: number;
+        panelSize: number;
+    };
+
+    /**
+     * Colour of the title, axis labels, legend and panel text
+     */
+    text: string;
+
+    /**
+     * Colour of secondary text such as hodograph ring labels
+     */
+    mutedText: string;
+
+    /**
+     * Lines of the sounding, its derived traces, the lifted parcel, the ensemble and the
+     * side panel profile
+     */
+    lines: {
+        temp: SkewTLineStyle;
+        dwpt: SkewTLineStyle;
+        wetBulb: SkewTLineStyle;
+        virtualTemp: SkewTLineStyle;
+        parcel: SkewTLineStyle;
+        mean: SkewTLineStyle;
+        member: SkewTLineStyle;
+        sidePanel: SkewTLineStyle;
+    };
+
+    /**
+     * Colours given in turn to additional profiles without a colour of their own
+     */
+    profileColors: string[];
+
+    /**
+     * Shaded CAPE/CIN areas, ensemble spread and icing layers
+     */
+    fills: {
+        cape: string;
+        cin: string;
+        tempSpread: string;
+        dwptSpread: string;
+        icing: string;
+    };
+
+    /**
+     * Background grid line families and their labels
+     */
+    grid: {
+        isotherm: SkewTLineStyle;
+        zeroIsotherm: SkewTLineStyle;
+        isobar: SkewTLineStyle;
+        dryAdiabat: SkewTLineStyle;
+        moistAdiabat: SkewTLineStyle;
+        mixingRatio: SkewTLineStyle;
+        moistAdiabatLabel: string;
+        mixingRatioLabel: string;
+        hodographAxis: SkewTLineStyle;
+    };
+
+    /**
+     * Freezing level and wet-bulb zero markers and labels
+     */
+    levels: {
+        freezing: string;
+        wetBulbZero: string;
+    };
+
+    /**
+     * Brackets of cloud layers, inversions, isothermal layers and the tropopause
+     */
+    features: {
+        cloud: string;
+        inversion: string;
+        isothermal: string;
+        tropopause: string;
+    };
+
+    /**
+     * Temperature and pressure axes
+     */
+    axis: SkewTLineStyle;
+
+    /**
+     * Wind barbs
+     */
+    barbs: SkewTLineStyle;
+
+    /**
+     * Hover readouts of temperature, dew point, their derived traces, height, wind speed
+     * and the side panel, and the side panel crosshair
+     */
+    tooltip: {
+        temp: string;
+        dwpt: string;
+        wetBulb: string;
+        virtualTemp: string;
+        text: string;
+    };
+
+    /**
+     * Boxes behind the indices panel and the hodograph inset
+     */
+    panel: {
+        fill: string;
+        stroke: string;
+    };
+
+    /**
+     * Toolbar buttons
+     */
+    button: {
+        fill: string;
+        stroke: string;
+        icon: string;
+    };
+};
+
+/**
+ * An entry of the chart legend
+ */
+export type SkewTLegendEntry = {
+    /**
+     * Label of the entry
+     */
+    name: string;
+
+    /**
+     * Colour of the swatch
+     */
+    color: string;
+
+    /**
+     * SVG stroke-dasharray of a line swatch
+     */
+    dashArray?: string;
+
+    /**
+     * Swatch shape: a box for the sounding, a line for traces and profiles, a band for shaded spreads
+     */
+    swatch: 'box' | 'band' | 'line';
+};
@@ -0,0 +1,11 @@
+import { HeightUnit, PressureUnit, TemperatureUnit, WindSpeedUnit } from '../constants';
+
+/**
+ * Display units of a chart. Data are always given in °C, m, hPa and m/s.
+ */
+export type SkewTUnits = {
+    temperature: TemperatureUnit;
+    height: HeightUnit;
+    pressure: PressureUnit;
+    windSpeed: WindSpeedUnit;
+};
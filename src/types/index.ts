@@ -1 +1,11 @@
-export * from './SkewTMeasurement';
\ No newline at end of file
+export * from './SkewTMeasurement';
+export * from './Parcel';
+export * from './Indices';
+export * from './Hodograph';
+export * from './Profile';
+export * from './Sounding';
+export * from './Theme';
+export * from './Export';
+export * from './Units';
+export * from './Levels';
+export * from './SidePanel';
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { convertTemperatureDifference, formatTemperatureDifference, formatWaterDepth } from './conversions';
+
+describe('index units', () => {
+    it('converts temperature differences without an offset', () => {
+        expect(convertTemperatureDifference(-6, 'F')).toBeCloseTo(-10.8, 6);
+        expect(convertTemperatureDifference(-6, 'K')).toBe(-6);
+        expect(convertTemperatureDifference(-6, 'C')).toBe(-6);
+    });
+
+    it('formats temperature differences with the unit', () => {
+        expect(formatTemperatureDifference(-6.01, 'C')).toBe('-6.0°C');
+        expect(formatTemperatureDifference(-6.01, 'F')).toBe('-10.8°F');
+        expect(formatTemperatureDifference(37, 'K')).toBe('37.0 K');
+    });
+
+    it('formats water depths in mm or inches after the height unit', () => {
+        expect(formatWaterDepth(41.66, 'm')).toBe('41.7 mm');
+        expect(formatWaterDepth(41.66, 'km')).toBe('41.7 mm');
+        expect(formatWaterDepth(41.66, 'ft')).toBe('1.64 in');
+        expect(formatWaterDepth(41.66, 'kft')).toBe('1.64 in');
+    });
+});
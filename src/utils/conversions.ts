@@ -1,8 +1,11 @@
+import { SkewTMeasurement, SkewTUnits } from '../types';
+import { UNIT_SYMBOLS, ZERO_CELSIUS } from '../constants';
+
 /**
  * Converts wind speed from m/s to a specified unit
  *
  * @param msvalue Wind speed in meters per second
- * @param unit Target unit ("kt" for knots, "kmh" for kilometers per hour, otherwise m/s)
+ * @param unit Target unit ("kt" for knots, "kmh" for kilometers per hour, "mph" for miles per hour, otherwise m/s)
  * @returns Wind speed in the specified unit
  */
 export function convertWindSpeed(msvalue: number, unit: string): number {
@@ -11,11 +14,203 @@ export function convertWindSpeed(msvalue: number, unit: string): number {
             return msvalue * 1.943844492; // m/s to knots
         case "kmh":
             return msvalue * 3.6; // m/s to km/h
+        case "mph":
+            return msvalue * 2.236936292; // m/s to miles per hour
         default:
             return msvalue; // keep as m/s
     }
 }
 
+/**
+ * Converts wind speed from a specified unit to m/s
+ *
+ * @param value Wind speed in the given unit
+ * @param unit Source unit ("kt" for knots, "kmh" for kilometers per hour, otherwise m/s)
+ * @returns Wind speed in meters per second
+ */
+export function windSpeedToMs(value: number, unit: string): number {
+    return value / convertWindSpeed(1, unit);
+}
+
+/**
+ * Converts a temperature from °C to a specified unit
+ *
+ * @param celsius Temperature in degrees Celsius
+ * @param unit Target unit ("F" for Fahrenheit, "K" for Kelvin, otherwise °C)
+ * @returns Temperature in the specified unit
+ */
+export function convertTemperature(celsius: number, unit: string): number {
+    switch (unit) {
+        case "F":
+            return celsius * 9 / 5 + 32;
+        case "K":
+            return celsius + ZERO_CELSIUS;
+        default:
+            return celsius;
+    }
+}
+
+/**
+ * Converts a temperature from a specified unit to °C
+ *
+ * @param value Temperature in the given unit
+ * @param unit Source unit ("F" for Fahrenheit, "K" for Kelvin, otherwise °C)
+ * @returns Temperature in degrees Celsius
+ */
+export function temperatureToCelsius(value: number, unit: string): number {
+    switch (unit) {
+        case "F":
+            return (value - 32) * 5 / 9;
+        case "K":
+            return value - ZERO_CELSIUS;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Converts a temperature difference, e.g. a stability index, from °C to a specified unit
+ *
+ * @param delta Temperature difference in degrees Celsius
+ * @param unit Target unit ("F" for Fahrenheit, otherwise °C or Kelvin, which share the degree size)
+ * @returns Temperature difference in the specified unit
+ */
+export function convertTemperatureDifference(delta: number, unit: string): number {
+    return unit === "F" ? delta * 9 / 5 : delta;
+}
+
+/**
+ * Converts a height from meters to a specified unit
+ *
+ * @param meters Height in meters
+ * @param unit Target unit ("ft" for feet, "km" for kilometers, "kft" for thousands of feet, otherwise m)
+ * @returns Height in the specified unit
+ */
+export function convertHeight(meters: number, unit: string): number {
+    switch (unit) {
+        case "ft":
+            return meters / 0.3048;
+        case "km":
+            return meters / 1000;
+        case "kft":
+            return meters / 304.8;
+        default:
+            return meters;
+    }
+}
+
+/**
+ * Converts a pressure from hPa to a specified unit
+ *
+ * @param hpa Pressure in hectopascals
+ * @param unit Target unit ("kPa" for kilopascals, "inHg" for inches of mercury, otherwise hPa)
+ * @returns Pressure in the specified unit
+ */
+export function convertPressure(hpa: number, unit: string): number {
+    switch (unit) {
+        case "kPa":
+            return hpa / 10;
+        case "inHg":
+            return hpa / 33.8638866667;
+        default:
+            return hpa;
+    }
+}
+
+/**
+ * Formats a temperature for display, rounded to whole degrees
+ *
+ * @param celsius Temperature in degrees Celsius
+ * @param unit Display unit
+ * @param symbol Whether to append the unit symbol
+ * @returns Formatted temperature, e.g. "68°F" or "293 K"
+ */
+export function formatTemperature(celsius: number, unit: SkewTUnits['temperature'], symbol = true): string {
+    const value = `${Math.round(convertTemperature(celsius, unit))}`;
+    if (!symbol) return value;
+    return unit === 'K' ? `${value} K` : `${value}${UNIT_SYMBOLS[unit]}`;
+}
+
+/**
+ * Formats a temperature difference for display, rounded to tenths
+ *
+ * @param delta Temperature difference in degrees Celsius
+ * @param unit Display unit
+ * @returns Formatted difference, e.g. "-10.8°F" or "-6.0 K"
+ */
+export function formatTemperatureDifference(delta: number, unit: SkewTUnits['temperature']): string {
+    const value = convertTemperatureDifference(delta, unit).toFixed(1);
+    return unit === 'K' ? `${value} K` : `${value}${UNIT_SYMBOLS[unit]}`;
+}
+
+/**
+ * Formats a depth of liquid water, e.g. the precipitable water: tenths of mm with
+ * metric heights, hundredths of inches with feet
+ *
+ * @param mm Depth in millimetres
+ * @param unit Height unit of the display
+ * @returns Formatted depth, e.g. "41.7 mm" or "1.64 in"
+ */
+export function formatWaterDepth(mm: number, unit: SkewTUnits['height']): string {
+    return unit === 'ft' || unit === 'kft' ? `${(mm / 25.4).toFixed(2)} in` : `${mm.toFixed(1)} mm`;
+}
+
+/**
+ * Formats a height for display: whole meters or feet, tenths of km or kft
+ *
+ * @param meters Height in meters
+ * @param unit Display unit
+ * @param symbol Whether to append the unit symbol
+ * @returns Formatted height, e.g. "4921 ft" or "1.5 km"
+ */
+export function formatHeight(meters: number, unit: SkewTUnits['height'], symbol = true): string {
+    const value = convertHeight(meters, unit).toFixed(unit === 'km' || unit === 'kft' ? 1 : 0);
+    return symbol ? `${value} ${UNIT_SYMBOLS[unit]}` : value;
+}
+
+/**
+ * Formats a pressure for display: whole hPa, tenths of kPa, hundredths of inHg
+ *
+ * @param hpa Pressure in hectopascals
+ * @param unit Display unit
+ * @param symbol Whether to append the unit symbol
+ * @returns Formatted pressure, e.g. "850 hPa" or "25.10 inHg"
+ */
+export function formatPressure(hpa: number, unit: SkewTUnits['pressure'], symbol = true): string {
+    const value = convertPressure(hpa, unit).toFixed(unit === 'inHg' ? 2 : unit === 'kPa' ? 1 : 0);
+    return symbol ? `${value} ${UNIT_SYMBOLS[unit]}` : value;
+}
+
+/**
+ * Formats a wind speed for display, rounded to tenths
+ *
+ * @param msvalue Wind speed in meters per second
+ * @param unit Display unit
+ * @returns Formatted wind speed, e.g. "12.5 kt"
+ */
+export function formatWindSpeed(msvalue: number, unit: SkewTUnits['windSpeed']): string {
+    return `${Math.round(convertWindSpeed(msvalue, unit) * 10) / 10} ${UNIT_SYMBOLS[unit]}`;
+}
+
+/**
+ * Converts a measurement from data units (°C, m, hPa, m/s) to display units
+ *
+ * @param d Measurement in data units
+ * @param units Target units
+ * @returns Measurement with the present values converted
+ */
+export function convertMeasurement(d: SkewTMeasurement, units: SkewTUnits): SkewTMeasurement {
+    const convert = (value: number | undefined, fn: (v: number) => number) => value === undefined ? undefined : fn(value);
+    return {
+        press: convertPressure(d.press, units.pressure),
+        hght: convert(d.hght, v => convertHeight(v, units.height)),
+        temp: convert(d.temp, v => convertTemperature(v, units.temperature)),
+        dwpt: convert(d.dwpt, v => convertTemperature(v, units.temperature)),
+        wdir: d.wdir,
+        wspd: convert(d.wspd, v => convertWindSpeed(v, units.windSpeed))
+    };
+}
+
 /**
  * Normalizes a string by trimming and handling special characters
  *
@@ -1,9 +1,130 @@
 import * as d3 from 'd3';
-import { SkewTMeasurement } from '../types';
-import { convertWindSpeed } from './conversions';
+import {
+    EnsembleStatistics,
+    FreezingLevel,
+    IcingLayer,
+    ParcelArea,
+    ParcelTrace,
+    SkewTExportFormat,
+    SkewTMeasurement,
+    SkewTLegendEntry,
+    SkewTLineStyle,
+    SkewTProfile,
+    SkewTTheme,
+    SkewTUnits,
+    SidePanelPoint,
+    SidePanelVariable,
+    DerivedTemperatures,
+    DerivedTrace,
+    SoundingFeature,
+    SoundingLevel,
+    StabilityIndices
+} from '../types';
+import {
+    convertHeight,
+    convertTemperature,
+    convertWindSpeed,
+    formatHeight,
+    formatPressure,
+    formatTemperature,
+    formatTemperatureDifference,
+    formatWaterDepth,
+    formatWindSpeed,
+    normalizeString
+} from './conversions';
+import {
+    dewpointFromMixingRatio,
+    dryAdiabaticTemperature,
+    equivalentPotentialTemperature,
+    moistAdiabaticTemperature,
+    standardAtmosphereHeight,
+    standardAtmospherePressure,
+    virtualTemperature,
+    wetBulbTemperature
+} from './thermodynamics';
+import {
+    fieldAtPressure,
+    heightAtPressure,
+    heightsAboveGround,
+    interpolateLogP,
+    interpolateToPressure,
+    pressureAtHeight
+} from './interpolation';
+import { bunkersStormMotion, windComponents } from './wind';
+import {
+    DEFAULT_PNG_SCALE,
+    DEFAULT_TEMPERATURE_UNIT,
+    DEFAULT_UNITS,
+    HEIGHT_AXIS_WIDTH,
+    HODOGRAPH_HEIGHT_BANDS,
+    ICING_TEMPERATURE_RANGE,
+    INTERACTIVE_CLASS,
+    LEGEND_ROW_HEIGHT,
+    LIGHT_THEME,
+    MIXING_RATIO_TOP_PRESSURE,
+    STANDARD_MIXING_RATIOS,
+    STANDARD_MOIST_ADIABATS,
+    TITLE_HEIGHT,
+    UNIT_SYMBOLS,
+    WindSpeedUnit
+} from '../constants';
 
 /**
- * Draw the background grid for the SkewT diagram
+ * Selects the child element with exactly the given tag and class, appending it on first use
+ */
+function child<K extends keyof SVGElementTagNameMap, P extends SVGElement>(
+    parent: d3.Selection<P, unknown, null, undefined>,
+    tag: K,
+    className: string
+): d3.Selection<SVGElementTagNameMap[K], unknown, null, undefined> {
+    const existing = parent.select<SVGElementTagNameMap[K]>(`:scope > ${tag}[class="${className}"]`);
+    return existing.empty() ? parent.append<SVGElementTagNameMap[K]>(tag).attr('class', className) : existing;
+}
+
+/**
+ * Applies a line style to a selection of lines or paths
+ */
+function stroke<E extends d3.BaseType, D, P extends d3.BaseType, PD>(
+    selection: d3.Selection<E, D, P, PD>,
+    style: SkewTLineStyle
+): void {
+    selection
+        .style('stroke', style.color)
+        .style('stroke-width', `${style.width}px`)
+        .style('stroke-dasharray', style.dashArray || 'none')
+        .style('opacity', style.opacity ?? 1);
+}
+
+/**
+ * Keeps one group per layer name under the parent, in the given order, so that
+ * each render updates the same groups instead of appending new ones
+ *
+ * @param parent Element holding the layers
+ * @param names Layer names, also used as class of each group
+ * @returns The layer groups, keyed by name
+ */
+export function joinLayers<N extends string, P extends SVGElement>(
+    parent: d3.Selection<P, unknown, null, undefined>,
+    names: readonly N[]
+): Record<N, d3.Selection<SVGGElement, unknown, null, undefined>> {
+    const layers = {} as Record<N, d3.Selection<SVGGElement, unknown, null, undefined>>;
+
+    parent.selectAll<SVGGElement, N>(':scope > g.layer')
+        .data(names, d => d)
+        .join('g')
+        .attr('class', d => `layer ${d}`)
+        .each(function (d) {
+            layers[d] = d3.select(this);
+        });
+
+    return layers;
+}
+
+/**
+ * Draw the background grid for the SkewT diagram. Grid lines and axes follow the
+ * current domains of x and y, so the function can be called again after zooming.
+ * The plot area clip path gets the id given as clipId, which the other drawing
+ * functions reference.
  */
 export function drawBackground(
     skewtbg: d3.Selection<SVGGElement, unknown, null, undefined>,
@@ -12,137 +133,263 @@ export function drawBackground(
     x: d3.ScaleLinear<number, number>,
     y: d3.ScaleLogarithmic<number, number>,
     basep: number,
+    topp: number,
     tan: number,
     plines: number[],
-    topp: number,
-    xAxis: d3.Axis<number | { valueOf(): number }>,
-    yAxis: d3.Axis<number | { valueOf(): number }>,
-    yAxis2: d3.Axis<number | { valueOf(): number }>
+    pticks: number[],
+    showMoistAdiabats = true,
+    showMixingRatioLines = true,
+    clipId = 'clipper',
+    theme = LIGHT_THEME,
+    units = DEFAULT_UNITS
 ): void {
+    const [ymin, ymax] = y.domain();
+    const inView = (p: number) => p >= ymin && p <= ymax;
+    const layers = joinLayers(skewtbg, ['isotherms', 'isobars', 'dryadiabats', 'moistadiabats', 'mixingratios', 'frame']);
+
     // Add clipping path
-    skewtbg.append('clipPath')
-        .attr('id', 'clipper')
-        .append('rect')
-        .attr('x', 0)
-        .attr('y', 0)
-        .attr('width', w)
-        .attr('height', h);
-
-    // Skewed temperature lines
-    skewtbg.selectAll('templine')
-        .data(d3.range(-100, 45, 10))
-        .enter().append('line')
-        .attr('x1', (d: number) => x(d) - 0.5 + (y(basep) - y(100)) / tan)
-        .attr('x2', (d: number) => x(d) - 0.5)
+    child(layers.frame, 'clipPath', 'clipper')
+        .attr('id', clipId)
+        .call(clip => child(clip, 'rect', 'clipper-rect')
+            .attr('x', 0)
+            .attr('y', 0)
+            .attr('width', w)
+            .attr('height', h));
+
+    // Skew offset of the bottom edge, non-zero only while zoomed
+    const offset = (y(basep) - h) / tan;
+    // Ticks stay on the 10 °C isotherms and the pressure levels, labelled in the display units
+    const tempFormat = d3.format(',.0f');
+    const pressFormat = (p: d3.NumberValue) => formatPressure(+p, units.pressure, false);
+    const xAxis = d3.axisBottom(d3.scaleLinear().domain([x.invert(-offset), x.invert(w - offset)]).range([0, w]))
+        .tickSize(0).ticks(10).tickFormat(t => tempFormat(convertTemperature(+t, units.temperature)));
+    const yAxis = d3.axisLeft(y).tickSize(0).tickValues(plines.filter(inView)).tickFormat(pressFormat);
+    const yAxis2 = d3.axisRight(y).tickSize(5).tickValues(pticks.filter(inView)).tickFormat(pressFormat);
+
+    // Skewed temperature lines, from the coldest one still visible at the top edge
+    const tmin = Math.floor(x.invert(-y(basep) / tan) / 10) * 10;
+    layers.isotherms.selectAll<SVGLineElement, number>('line')
+        .data(d3.range(tmin, x.invert(w - offset) + 1, 10), d => d)
+        .join('line')
+        .attr('x1', d => x(d) - 0.5 + y(basep) / tan)
+        .attr('x2', d => x(d) - 0.5 + offset)
         .attr('y1', 0)
         .attr('y2', h)
-        .attr('class', (d: number) => d == 0 ? 'tempzero' : 'gridline')
-        .style('stroke', d => d === 0 ? '#aaa' : '#dfdfdf')
-        .style('stroke-width', d => d === 0 ? '1.25px' : '0.75px')
+        .attr('class', d => d === 0 ? 'tempzero' : 'gridline')
+        .each(function (d) {
+            stroke(d3.select(this), d === 0 ? theme.grid.zeroIsotherm : theme.grid.isotherm);
+        })
         .style('fill', 'none');
 
     // Logarithmic pressure lines
-    skewtbg.selectAll('pressureline')
-        .data(plines)
-        .enter().append('line')
+    layers.isobars.selectAll<SVGLineElement, number>('line')
+        .data(plines.filter(inView), d => d)
+        .join('line')
         .attr('x1', 0)
         .attr('x2', w)
-        .attr('y1', (d: number) => y(d))
-        .attr('y2', (d: number) => y(d))
+        .attr('y1', d => y(d))
+        .attr('y2', d => y(d))
         .attr('class', 'gridline')
-        .style('stroke', '#dfdfdf')
-        .style('stroke-width', '0.75px')
+        .call(stroke, theme.grid.isobar)
         .style('fill', 'none');
 
-    // create array to plot dry adiabats
+    // Dry adiabats, one per potential temperature
     const pp = d3.range(topp, basep + 1, 10);
-    const dryad = d3.range(-30, 240, 20);
-    const all: Array<[number, number][]> = [];
-
-    for (let i = 0; i < dryad.length; i++) {
-        const z: [number, number][] = [];
-        for (let j = 0; j < pp.length; j++) {
-            z.push([dryad[i], pp[j]]);
-        }
-        all.push(z);
-    }
-
     const dryline = d3.line<[number, number]>()
         .x(([d, p]) => {
-            const xVal = x(((273.15 + d) / Math.pow((1000 / p), 0.286) - 273.15)) + (y(basep) - y(p)) / tan;
+            const xVal = x(dryAdiabaticTemperature(d, 1000, p)) + (y(basep) - y(p)) / tan;
             return isNaN(xVal) ? 0 : xVal;
         })
         .y(([, p]) => y(p));
 
-    // Draw dry adiabats
-    skewtbg.selectAll('dryadiabatline')
-        .data(all)
-        .enter().append('path')
+    layers.dryadiabats.selectAll<SVGPathElement, number>('path')
+        .data(d3.range(-30, 240, 20), d => d)
+        .join('path')
         .attr('class', 'gridline')
-        .attr('clip-path', 'url(#clipper)')
-        .attr('d', dryline)
-        .style('stroke', '#dfdfdf')
-        .style('stroke-width', '0.75px')
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', d => dryline(pp.map((p): [number, number] => [d, p])))
+        .call(stroke, theme.grid.dryAdiabat)
         .style('fill', 'none');
 
+    if (showMoistAdiabats) drawMoistAdiabats(layers.moistadiabats, x, y, basep, topp, tan, clipId, theme, units.temperature);
+    else layers.moistadiabats.selectAll('*').remove();
+
+    if (showMixingRatioLines) drawMixingRatioLines(layers.mixingratios, x, y, basep, tan, clipId, theme);
+    else layers.mixingratios.selectAll('*').remove();
+
     // Line along right edge of plot
-    skewtbg.append('line')
+    child(layers.frame, 'line', 'gridline edge')
         .attr('x1', w - 0.5)
         .attr('x2', w - 0.5)
         .attr('y1', 0)
         .attr('y2', h)
-        .attr('class', 'gridline')
-        .style('stroke', '#dfdfdf')
-        .style('stroke-width', '0.75px')
+        .call(stroke, theme.grid.isobar)
         .style('fill', 'none');
 
     // Add axes
-    skewtbg.append('g')
-        .attr('class', 'x axis')
-        .attr('transform', 'translate(0,' + (h - 0.5) + ')')
+    child(layers.frame, 'g', 'x axis')
+        .attr('transform', `translate(0,${h - 0.5})`)
+        .style('color', theme.axis.color)
+        .style('font-family', () => theme.font.family || null)
         .call(xAxis)
         .selectAll('path, line')
         .style('fill', 'none')
-        .style('stroke', '#000000')
-        .style('stroke-width', '2px')
+        .style('stroke', theme.axis.color)
+        .style('stroke-width', `${theme.axis.width}px`)
         .style('shape-rendering', 'crispEdges');
 
-    skewtbg.append('g')
-        .attr('class', 'y axis')
+    child(layers.frame, 'g', 'y axis')
         .attr('transform', 'translate(-0.5,0)')
+        .style('color', theme.axis.color)
+        .style('font-family', () => theme.font.family || null)
         .call(yAxis)
         .selectAll('path, line')
         .style('fill', 'none')
-        .style('stroke', '#000000')
-        .style('stroke-width', '2px')
+        .style('stroke', theme.axis.color)
+        .style('stroke-width', `${theme.axis.width}px`)
         .style('shape-rendering', 'crispEdges');
 
     // Add axis labels
-    skewtbg.append('text')
-        .attr('class', 'x-axis-label')
+    child(layers.frame, 'text', 'x-axis-label')
         .attr('text-anchor', 'middle')
         .attr('x', w / 2)
         .attr('y', h + 30)
-        .text('Temperature (°C)');
+        .text(`Temperature (${UNIT_SYMBOLS[units.temperature]})`)
+        .style('fill', theme.text);
 
-    skewtbg.append('text')
-        .attr('class', 'y-axis-label')
+    child(layers.frame, 'text', 'y-axis-label')
         .attr('text-anchor', 'middle')
         .attr('transform', 'rotate(-90)')
         .attr('x', -h / 2)
         .attr('y', -40)
-        .text('Pressure Level (hPa)');
+        .text(`Pressure Level (${UNIT_SYMBOLS[units.pressure]})`)
+        .style('fill', theme.text);
 
-    skewtbg.append('g')
-        .attr('class', 'y axis ticks')
+    child(layers.frame, 'g', 'y axis ticks')
         .attr('transform', 'translate(-0.5,0)')
+        .style('color', theme.axis.color)
+        .style('font-family', () => theme.font.family || null)
         .call(yAxis2)
         .selectAll('text')
         .style('display', 'block');
 }
 
 /**
- * Draw temperature and dew point lines
+ * Draw the saturated (pseudo) adiabats with their 1000 hPa temperature as label
+ */
+export function drawMoistAdiabats(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    x: d3.ScaleLinear<number, number>,
+    y: d3.ScaleLogarithmic<number, number>,
+    basep: number,
+    topp: number,
+    tan: number,
+    clipId = 'clipper',
+    theme = LIGHT_THEME,
+    temperatureUnit = DEFAULT_TEMPERATURE_UNIT
+): void {
+    const pp = d3.range(topp, basep + 1, 10);
+    const labelp = Math.max(topp, 250);
+
+    // Integrate each adiabat outwards from 1000 hPa, one pressure step at a time
+    const adiabats = new Map(STANDARD_MOIST_ADIABATS.map(t0 => {
+        const z: [number, number][] = [];
+        let t = t0;
+        let p = 1000;
+        pp.filter(d => d <= 1000).reverse().forEach(d => {
+            t = moistAdiabaticTemperature(t, p, d);
+            p = d;
+            z.unshift([t, d]);
+        });
+        t = t0;
+        p = 1000;
+        pp.filter(d => d > 1000).forEach(d => {
+            t = moistAdiabaticTemperature(t, p, d);
+            p = d;
+            z.push([t, d]);
+        });
+        return [t0, z];
+    }));
+
+    const moistline = d3.line<[number, number]>()
+        .x(([t, p]) => x(t) + (y(basep) - y(p)) / tan)
+        .y(([, p]) => y(p));
+
+    group.selectAll<SVGPathElement, number>('path.moistadiabat')
+        .data(STANDARD_MOIST_ADIABATS, d => d)
+        .join('path')
+        .attr('class', 'gridline moistadiabat')
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', d => moistline(adiabats.get(d)!))
+        .call(stroke, theme.grid.moistAdiabat)
+        .style('fill', 'none');
+
+    group.selectAll<SVGTextElement, number>('text.moistadiabat-label')
+        .data(STANDARD_MOIST_ADIABATS, d => d)
+        .join('text')
+        .attr('class', 'moistadiabat-label')
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('text-anchor', 'middle')
+        .attr('dy', '-0.3em')
+        .attr('x', d => {
+            const p0 = adiabats.get(d)!.reduce((a, b) => Math.abs(b[1] - labelp) < Math.abs(a[1] - labelp) ? b : a);
+            return x(p0[0]) + (y(basep) - y(p0[1])) / tan;
+        })
+        .attr('y', y(labelp))
+        .text(d => Math.round(convertTemperature(d, temperatureUnit)))
+        .style('fill', theme.grid.moistAdiabatLabel)
+        .style('font-size', `${theme.font.labelSize}px`);
+}
+
+/**
+ * Draw the saturation mixing-ratio lines, labelled in g/kg at their top end
+ */
+export function drawMixingRatioLines(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    x: d3.ScaleLinear<number, number>,
+    y: d3.ScaleLogarithmic<number, number>,
+    basep: number,
+    tan: number,
+    clipId = 'clipper',
+    theme = LIGHT_THEME
+): void {
+    const pp = d3.range(MIXING_RATIO_TOP_PRESSURE, basep + 1, 10);
+    const points = (w: number) => pp.map((p): [number, number] => [dewpointFromMixingRatio(w / 1000, p), p]);
+
+    const mixingline = d3.line<[number, number]>()
+        .x(([t, p]) => x(t) + (y(basep) - y(p)) / tan)
+        .y(([, p]) => y(p));
+
+    group.selectAll<SVGPathElement, number>('path.mixingratio')
+        .data(STANDARD_MIXING_RATIOS, d => d)
+        .join('path')
+        .attr('class', 'gridline mixingratio')
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', d => mixingline(points(d)))
+        .call(stroke, theme.grid.mixingRatio)
+        .style('fill', 'none');
+
+    group.selectAll<SVGTextElement, number>('text.mixingratio-label')
+        .data(STANDARD_MIXING_RATIOS, d => d)
+        .join('text')
+        .attr('class', 'mixingratio-label')
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('text-anchor', 'middle')
+        .attr('dy', '-0.3em')
+        .attr('x', d => {
+            const t = dewpointFromMixingRatio(d / 1000, MIXING_RATIO_TOP_PRESSURE);
+            return x(t) + (y(basep) - y(MIXING_RATIO_TOP_PRESSURE)) / tan;
+        })
+        .attr('y', y(MIXING_RATIO_TOP_PRESSURE))
+        .text(d => d)
+        .style('fill', theme.grid.mixingRatioLabel)
+        .style('font-size', `${theme.font.labelSize}px`);
+}
+
+/**
+ * Draw temperature and dew point lines, and the derived traces given in traces
+ *
+ * @returns The measurements with both a temperature and a dew point
  */
 export function drawTempDewLines(
     data: SkewTMeasurement[],
@@ -150,58 +397,539 @@ export function drawTempDewLines(
     x: d3.ScaleLinear<number, number>,
     y: d3.ScaleLogarithmic<number, number>,
     basep: number,
-    tan: number
+    tan: number,
+    clipId = 'clipper',
+    theme = LIGHT_THEME,
+    derived: DerivedTemperatures[] = [],
+    traces: DerivedTrace[] = []
 ): SkewTMeasurement[] {
     const skewtline = data.filter(d =>
         typeof d.temp === 'number' && d.temp > -1000 &&
         typeof d.dwpt === 'number' && d.dwpt > -1000
     );
 
-    const skewtlines = [skewtline];
+    // Every line as [temperature, pressure] points, the derived traces above the sounding
+    type SoundingLine = { field: 'temp' | 'dwpt' | DerivedTrace, style: SkewTLineStyle, points: Array<[number, number]> };
+    const lines: SoundingLine[] = [
+        { field: 'temp', style: theme.lines.temp, points: skewtline.map(m => [m.temp!, m.press]) },
+        { field: 'dwpt', style: theme.lines.dwpt, points: skewtline.map(m => [m.dwpt!, m.press]) },
+        ...traces.map((field): SoundingLine => ({
+            field,
+            style: theme.lines[field],
+            points: derived.map(m => [m[field], m.press])
+        }))
+    ];
 
-    // Temperature line generator
-    const templine = d3.line<SkewTMeasurement>()
-        .x(d => x(d.temp!) + (y(basep) - y(d.press)) / tan)
-        .y(d => y(d.press))
-        .defined(d => typeof d.temp === 'number' && d.temp > -1000);
-
-    // Draw temperature lines
-    skewtgroup.selectAll('templines')
-        .data(skewtlines)
-        .enter()
-        .append('path')
-        .attr('class', (_d, i) => (i < 10) ? 'temp skline' : 'temp mean')
-        .attr('clip-path', 'url(#clipper)')
-        .attr('d', templine)
+    skewtgroup.selectAll<SVGPathElement, SoundingLine>('path.skline')
+        .data(lines, d => d.field)
+        .join('path')
+        .attr('class', d => `${d.field} skline`)
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', d => d3.line<[number, number]>()
+            .x(([t, p]) => x(t) + (y(basep) - y(p)) / tan)
+            .y(([, p]) => y(p))(d.points))
         .style('fill', 'none')
-        .style('stroke', (_d, i) => i < 10 ? 'red' : 'black')
-        .style('stroke-width', (_d, i) => i < 10 ? '3px' : '1.8px')
-        .style('opacity', (_d, i) => i < 10 ? 0.8 : 1);
+        .each(function (d) {
+            stroke(d3.select(this), d.style);
+        });
+
+    return skewtline;
+}
+
+/**
+ * Draw the lifted parcel trace and shade its CAPE and CIN areas; a null parcel
+ * clears the group
+ */
+export function drawParcel(
+    parcel: ParcelTrace | null,
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    x: d3.ScaleLinear<number, number>,
+    y: d3.ScaleLogarithmic<number, number>,
+    basep: number,
+    tan: number,
+    clipId = 'clipper',
+    theme = LIGHT_THEME
+): void {
+    const skewx = (temp: number, press: number) => x(temp) + (y(basep) - y(press)) / tan;
+
+    // Shaded areas enclosed by the parcel path and the environmental temperature
+    const arealine = d3.line<[number, number]>()
+        .x(([t, p]) => skewx(t, p))
+        .y(([, p]) => y(p));
+
+    group.selectAll<SVGPathElement, ParcelArea>('path.parcel-area')
+        .data(parcel ? parcel.areas : [])
+        .join('path')
+        .attr('class', d => `parcel-area ${d.type}`)
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', d => arealine([
+            ...d.levels.map((l): [number, number] => [l.temp, l.press]),
+            ...d.levels.slice().reverse().map((l): [number, number] => [l.envTemp, l.press])
+        ]) + 'Z')
+        .style('fill', d => d.type === 'cape' ? theme.fills.cape : theme.fills.cin)
+        .style('stroke', 'none')
+        .style('opacity', 0.5)
+        .style('pointer-events', 'none'); // Keep the hover overlay below reachable
+
+    // Parcel path, kept above the areas
+    const parcelline = d3.line<{ press: number, temp: number }>()
+        .x(d => skewx(d.temp, d.press))
+        .y(d => y(d.press));
+
+    group.selectAll<SVGPathElement, ParcelTrace['levels']>('path.parcel')
+        .data(parcel ? [parcel.levels] : [])
+        .join('path')
+        .attr('class', 'parcel')
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', parcelline)
+        .style('fill', 'none')
+        .call(stroke, theme.lines.parcel)
+        .raise();
+}
+
+/**
+ * Draw the freezing levels and the wet-bulb zero as labelled marks on the 0 °C
+ * isotherm of the background, and shade icing layers between the 0 and -20 °C
+ * isotherms. Empty arrays remove the corresponding elements.
+ */
+export function drawFreezingLevels(
+    freezing: FreezingLevel[],
+    wetBulbZero: SoundingLevel[],
+    icing: IcingLayer[],
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    x: d3.ScaleLinear<number, number>,
+    y: d3.ScaleLogarithmic<number, number>,
+    basep: number,
+    tan: number,
+    clipId = 'clipper',
+    theme = LIGHT_THEME,
+    units = DEFAULT_UNITS
+): void {
+    // Same half-pixel offset as the isotherms, so the marks sit on the tempzero line
+    const skewx = (temp: number, press: number) => x(temp) - 0.5 + (y(basep) - y(press)) / tan;
+    const [tmin, tmax] = ICING_TEMPERATURE_RANGE;
+
+    group.selectAll<SVGPathElement, IcingLayer>('path.icing-layer')
+        .data(icing, d => d.bottom.press)
+        .join('path')
+        .attr('class', 'icing-layer')
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', ({ bottom, top }) => `M${skewx(tmax, bottom.press)},${y(bottom.press)}` +
+            `L${skewx(tmax, top.press)},${y(top.press)}` +
+            `L${skewx(tmin, top.press)},${y(top.press)}` +
+            `L${skewx(tmin, bottom.press)},${y(bottom.press)}Z`)
+        .style('fill', theme.fills.icing)
+        .style('stroke', 'none')
+        .style('opacity', 0.45)
+        .style('pointer-events', 'none'); // The tooltips still follow the pointer across the band
+
+    // Freezing levels are labelled on the right of the isotherm, the wet-bulb zero on the left
+    type Mark = { key: string, label: string, level: SoundingLevel, color: string, side: 1 | -1 };
+    const label = (name: string, l: SoundingLevel) =>
+        `${name} ${l.hght === undefined ? formatPressure(l.press, units.pressure) : formatHeight(l.hght, units.height)}`;
+    const marks: Mark[] = [
+        ...freezing.map((l, i): Mark => ({ key: `fzl-${i}`, label: label('FZL', l), level: l, color: theme.levels.freezing, side: 1 })),
+        ...wetBulbZero.map((l, i): Mark => ({ key: `wbz-${i}`, label: label('WBZ', l), level: l, color: theme.levels.wetBulbZero, side: -1 }))
+    ];
+    const [ymin, ymax] = y.domain();
+
+    const mark = group.selectAll<SVGGElement, Mark>('g.level-mark')
+        .data(marks.filter(d => d.level.press >= ymin && d.level.press <= ymax), d => d.key)
+        .join(enter => {
+            const g = enter.append('g');
+            g.append('line').attr('x1', -8).attr('x2', 8);
+            g.append('text').attr('dy', '-0.3em');
+            return g;
+        })
+        .attr('class', d => `level-mark ${d.key.slice(0, 3)}`)
+        .attr('transform', d => `translate(${skewx(0, d.level.press)},${y(d.level.press)})`);
+    mark.select('line')
+        .style('stroke', d => d.color)
+        .style('stroke-width', '2px');
+    mark.select('text')
+        .attr('x', d => d.side * 10)
+        .attr('text-anchor', d => d.side > 0 ? 'start' : 'end')
+        .style('fill', d => d.color)
+        .style('font-size', `${theme.font.labelSize}px`)
+        .text(d => d.label);
+}
+
+/**
+ * Draw sounding features as labelled brackets along the left axis: cloud layers in
+ * the first column, inversions and isothermal layers in the second, and the
+ * tropopause as a tick across both. Brackets are cut at the edges of the plot.
+ */
+export function drawFeatureBrackets(
+    features: SoundingFeature[],
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    y: d3.ScaleLogarithmic<number, number>,
+    theme = LIGHT_THEME,
+    units = DEFAULT_UNITS
+): void {
+    const [ymin, ymax] = y.domain();
+    const [top, bottom] = y.range();
+    const clampY = (p: number) => Math.max(top, Math.min(bottom, y(p)));
+    const column = (d: SoundingFeature) => d.type === 'cloud' ? 4 : 14;
+    const label = (d: SoundingFeature) => {
+        switch (d.type) {
+            case 'cloud': return 'CLD';
+            case 'inversion': return 'INV';
+            case 'isothermal': return 'ISO';
+            case 'tropopause':
+                return `TROP ${d.bottom.hght === undefined ? formatPressure(d.bottom.press, units.pressure) : formatHeight(d.bottom.hght, units.height)}`;
+        }
+    };
+
+    const bracket = group.selectAll<SVGGElement, SoundingFeature>('g.feature')
+        .data(features.filter(d => d.top.press <= ymax && d.bottom.press >= ymin), d => `${d.type}-${d.bottom.press}`)
+        .join(enter => {
+            const g = enter.append('g');
+            g.append('path').style('fill', 'none').style('stroke-width', '1.5px');
+            g.append('text').attr('dy', '.35em');
+            return g;
+        })
+        .attr('class', d => `feature ${d.type}`);
+
+    bracket.select('path')
+        .attr('d', d => {
+            const y0 = clampY(d.bottom.press);
+            const y1 = clampY(d.top.press);
+            if (d.type === 'tropopause') return `M0,${y0}H24`;
+            const x = column(d);
+            return `M${x + 4},${y0}H${x}V${y1}H${x + 4}`;
+        })
+        .style('stroke', d => theme.features[d.type]);
+
+    // Layers too thin for a readable label keep only the bracket
+    bracket.select('text')
+        .attr('x', d => d.type === 'tropopause' ? 26 : column(d) + 6)
+        .attr('y', d => (clampY(d.bottom.press) + clampY(d.top.press)) / 2)
+        .style('fill', d => theme.features[d.type])
+        .style('font-size', `${theme.font.labelSize}px`)
+        .text(d => d.type === 'tropopause' || clampY(d.bottom.press) - clampY(d.top.press) >= 12 ? label(d) : '');
+}
+
+/**
+ * Draw the height and flight-level scales inside the right edge of the diagram, keeping
+ * the margin for the wind barbs. Heights come from the data where it has them and from
+ * the ICAO standard atmosphere beyond; AGL heights count from the lowest level. Flight
+ * levels are always standard atmosphere pressure altitudes.
+ */
+export function drawHeightScales(
+    data: SkewTMeasurement[],
+    reference: 'msl' | 'agl' | undefined,
+    flightLevels: boolean,
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    w: number,
+    y: d3.ScaleLogarithmic<number, number>,
+    theme = LIGHT_THEME,
+    units = DEFAULT_UNITS
+): void {
+    const [ymin, ymax] = y.domain();
+    const [top, bottom] = y.range();
+    const count = Math.max(2, Math.round((bottom - top) / 40));
+    const metersPerUnit = 1 / convertHeight(1, units.height);
+    const scales: Array<{ key: string, title: string, ticks: Array<{ press: number, label: string }> }> = [];
+
+    if (reference) {
+        const surface = d3.max(data, d => d.press) ?? ymax;
+        const ground = reference === 'agl' ? heightAtPressure(data, surface, true)! : 0;
+        const height = (p: number) => convertHeight(heightAtPressure(data, p, true)! - ground, units.height);
+        const standard = !data.some(d => typeof d.hght === 'number');
+        scales.push({
+            key: 'height',
+            title: `${UNIT_SYMBOLS[units.height]} ${reference.toUpperCase()}${standard ? ' ISA' : ''}`,
+            // Nothing below the ground on an AGL scale
+            ticks: d3.ticks(height(ymax), height(ymin), count).filter(v => reference === 'msl' || v >= 0).map(v => ({
+                press: pressureAtHeight(data, v * metersPerUnit + ground, true)!,
+                label: d3.format('~g')(v)
+            }))
+        });
+    }
+
+    if (flightLevels) {
+        const level = (p: number) => convertHeight(standardAtmosphereHeight(p), 'ft') / 100;
+        scales.push({
+            key: 'flight-level',
+            title: 'FL',
+            ticks: d3.ticks(level(ymax), level(ymin), count).filter(v => v > 0).map(v => ({
+                press: standardAtmospherePressure(v * 100 * 0.3048),
+                label: `FL${d3.format('03d')(v)}`
+            }))
+        });
+    }
+
+    const scale = group.selectAll<SVGGElement, typeof scales[number]>('g.height-scale')
+        .data(scales, d => d.key)
+        .join(enter => {
+            const g = enter.append('g');
+            g.append('g').attr('class', 'ticks');
+            g.append('text').attr('class', 'scale-title').attr('text-anchor', 'end').attr('x', -2).attr('y', -6);
+            return g;
+        })
+        .attr('class', d => `height-scale ${d.key}`)
+        .attr('transform', (d, i) => `translate(${w - 0.5 - i * HEIGHT_AXIS_WIDTH},0)`);
+
+    scale.select<SVGGElement>('g.ticks')
+        .style('color', theme.axis.color)
+        .style('font-family', () => theme.font.family || null)
+        .each(function (d) {
+            d3.select(this)
+                .call(d3.axisLeft(y).tickSize(5).tickValues(d.ticks.map(t => t.press)).tickFormat((_, i) => d.ticks[i].label))
+                .call(g => g.select('.domain').remove());
+        });
+
+    scale.select('text.scale-title')
+        .style('fill', theme.text)
+        .style('font-size', `${theme.font.labelSize}px`)
+        .text(d => d.title);
+}
+
+/**
+ * Draw the side panel: the profile of one variable against the pressure scale of the
+ * diagram, with its isobars, a value axis and a title. Wind speeds are shown in the
+ * display unit. With onPointer the panel reports the pointer pressure, or undefined
+ * when the pointer leaves, like setupTooltips.
+ *
+ * @returns Function that moves the panel crosshair and readout to a pressure, or hides
+ * them without one
+ */
+export function drawSidePanel(
+    profile: SidePanelPoint[],
+    variable: SidePanelVariable,
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    pw: number,
+    h: number,
+    y: d3.ScaleLogarithmic<number, number>,
+    plines: number[],
+    clipId: string,
+    theme = LIGHT_THEME,
+    units = DEFAULT_UNITS,
+    onPointer?: (press: number | undefined) => void
+): (press?: number) => void {
+    const [ymin, ymax] = y.domain();
+    const points = profile.map(d => ({
+        press: d.press,
+        value: variable === 'windSpeed' ? convertWindSpeed(d.value, units.windSpeed) : d.value
+    }));
+    const unit = (() => {
+        switch (variable) {
+            case 'windSpeed': return UNIT_SYMBOLS[units.windSpeed];
+            case 'relativeHumidity': return '%';
+            case 'lapseRate': return 'K/km';
+            case 'thetaE': return 'K';
+        }
+    })();
+    const title = (() => {
+        switch (variable) {
+            case 'windSpeed': return 'Wind';
+            case 'relativeHumidity': return 'RH';
+            case 'lapseRate': return 'Lapse rate';
+            case 'thetaE': return 'θe';
+        }
+    })();
+
+    // Relative humidity on a fixed scale, wind speed and lapse rate from zero
+    const extent = d3.extent([...points.map(d => d.value), ...(variable === 'windSpeed' || variable === 'lapseRate' ? [0] : [])]);
+    const px = d3.scaleLinear()
+        .domain(variable === 'relativeHumidity' ? [0, 100] : extent[0] === undefined ? [0, 1] : extent)
+        .range([0, pw])
+        .nice();
+
+    child(group, 'clipPath', 'panel-clipper')
+        .attr('id', clipId)
+        .call(clip => child(clip, 'rect', 'panel-clipper-rect')
+            .attr('width', pw)
+            .attr('height', h));
+
+    child(group, 'rect', 'panel-frame')
+        .attr('width', pw)
+        .attr('height', h)
+        .style('fill', theme.panel.fill)
+        .style('stroke', theme.panel.stroke);
+
+    child(group, 'g', 'isobars')
+        .selectAll<SVGLineElement, number>('line')
+        .data(plines.filter(p => p >= ymin && p <= ymax), d => d)
+        .join('line')
+        .attr('class', 'gridline')
+        .attr('x1', 0)
+        .attr('x2', pw)
+        .attr('y1', d => y(d))
+        .attr('y2', d => y(d))
+        .call(stroke, theme.grid.isobar);
+
+    child(group, 'g', 'x axis')
+        .attr('transform', `translate(0,${h - 0.5})`)
+        .style('color', theme.axis.color)
+        .style('font-family', () => theme.font.family || null)
+        .call(d3.axisBottom(px).ticks(Math.max(2, Math.floor(pw / 30))).tickSize(3))
+        .selectAll('path, line')
+        .style('fill', 'none')
+        .style('stroke', theme.axis.color)
+        .style('stroke-width', `${theme.axis.width}px`)
+        .style('shape-rendering', 'crispEdges');
+
+    child(group, 'text', 'panel-title')
+        .attr('text-anchor', 'middle')
+        .attr('x', pw / 2)
+        .attr('y', -8)
+        .style('fill', theme.text)
+        .style('font-size', `${theme.font.labelSize}px`)
+        .text(`${title} (${unit})`);
+
+    child(group, 'path', 'side-profile')
+        .attr('data-variable', variable)
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', d3.line<{ press: number, value: number }>().x(d => px(d.value)).y(d => y(d.press))(points))
+        .call(stroke, theme.lines.sidePanel)
+        .style('fill', 'none');
+
+    // Crosshair and readout, moved by the pointer over the panel or the diagram
+    const focus = child(group, 'g', `panel-focus ${INTERACTIVE_CLASS}`);
+    if (!onPointer) {
+        focus.remove();
+        group.select('rect.panel-overlay').remove();
+        return () => undefined;
+    }
+    focus.style('display', 'none')
+        .style('pointer-events', 'none');
+    child(focus, 'line', 'crosshair')
+        .attr('x1', 0)
+        .attr('x2', pw)
+        .style('stroke', theme.tooltip.text)
+        .style('stroke-width', '1px')
+        .style('stroke-dasharray', '3,2');
+    const marker = child(focus, 'circle', 'marker')
+        .attr('r', 3)
+        .style('fill', theme.lines.sidePanel.color);
+    const readout = child(focus, 'text', 'readout')
+        .attr('text-anchor', 'end')
+        .attr('x', pw - 2)
+        .attr('dy', '-.4em')
+        .style('fill', theme.tooltip.text)
+        .style('font-size', `${theme.font.labelSize}px`);
+
+    child(group, 'rect', `panel-overlay ${INTERACTIVE_CLASS}`)
+        .attr('width', pw)
+        .attr('height', h)
+        .style('fill', 'white')
+        .style('opacity', 0)
+        .style('pointer-events', 'all')
+        .on('mouseout', () => onPointer(undefined))
+        .on('mousemove', function (event) {
+            onPointer(y.invert(d3.pointer(event, this)[1]));
+        });
+
+    return press => {
+        if (press === undefined) {
+            focus.style('display', 'none');
+            return;
+        }
+        focus.style('display', null)
+            .attr('transform', `translate(0,${y(press)})`);
+
+        // The value at the pointer, interpolated between the points around it
+        const i = points.findIndex(d => d.press <= press);
+        const value = i === 0 && points[0].press === press ? points[0].value
+            : i > 0 ? interpolateLogP(press, points[i - 1].press, points[i - 1].value, points[i].press, points[i].value)
+                : undefined;
+        marker.style('display', () => value === undefined ? 'none' : null)
+            .attr('cx', value === undefined ? 0 : px(value));
+        readout.text(value === undefined ? '' : `${d3.format(variable === 'thetaE' || variable === 'relativeHumidity' ? '.0f' : '.1f')(value)} ${unit}`);
+    };
+}
+
+/**
+ * Draw the temperature and dew point lines of additional profiles, keyed by name.
+ * Colours must be resolved by the caller; the class defaults to "skline" for
+ * ensemble members and "profile" otherwise. Members without a stroke of their
+ * own use the member line of the theme.
+ */
+export function drawProfiles(
+    profiles: Array<SkewTProfile & { color: string }>,
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    x: d3.ScaleLinear<number, number>,
+    y: d3.ScaleLogarithmic<number, number>,
+    basep: number,
+    tan: number,
+    className?: string,
+    clipId = 'clipper',
+    theme = LIGHT_THEME
+): void {
+    type ProfileLine = { field: 'temp' | 'dwpt', profile: SkewTProfile & { color: string } };
+    const lines: ProfileLine[] = (['temp', 'dwpt'] as const)
+        .flatMap(field => profiles.map(profile => ({ field, profile })));
 
-    // Dew point line generator
-    const dewpointline = d3.line<SkewTMeasurement>()
-        .x(d => x(d.dwpt!) + (y(basep) - y(d.press)) / tan)
+    const line = (field: 'temp' | 'dwpt') => d3.line<SkewTMeasurement>()
+        .x(d => x(d[field]!) + (y(basep) - y(d.press)) / tan)
         .y(d => y(d.press))
-        .defined(d => typeof d.dwpt === 'number' && d.dwpt > -1000);
-
-    // Draw dew point lines
-    skewtgroup.selectAll('tempdewlines')
-        .data(skewtlines)
-        .enter()
-        .append('path')
-        .attr('class', (_d, i) => (i < 10) ? 'dwpt skline' : 'dwpt mean')
-        .attr('clip-path', 'url(#clipper)')
-        .attr('d', dewpointline)
+        .defined(d => typeof d[field] === 'number' && d[field]! > -1000);
+
+    group.selectAll<SVGPathElement, ProfileLine>('path')
+        .data(lines, d => `${d.field}:${d.profile.name}`)
+        .join('path')
+        .attr('class', ({ field, profile }) => `${field} ${className || (profile.member ? 'skline' : 'profile')}`)
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', ({ field, profile }) => line(field)(profile.data.slice().sort((a, b) => b.press - a.press)))
         .style('fill', 'none')
-        .style('stroke', (_d, i) => i < 10 ? 'green' : 'black')
-        .style('stroke-width', (_d, i) => i < 10 ? '3px' : '1.8px')
-        .style('opacity', (_d, i) => i < 10 ? 0.8 : 1);
+        .style('stroke', d => d.profile.color)
+        .style('stroke-width', ({ profile }) => `${profile.strokeWidth ?? (profile.member ? theme.lines.member.width : 2)}px`)
+        .style('stroke-dasharray', d => d.profile.dashArray || null)
+        .style('opacity', ({ profile }) => profile.opacity ?? (profile.member ? theme.lines.member.opacity ?? 1 : 0.9));
+}
 
-    return skewtline;
+/**
+ * Shade the ensemble percentile spread of temperature and dew point; null
+ * statistics clear the group
+ */
+export function drawEnsembleSpread(
+    stats: EnsembleStatistics | null,
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    x: d3.ScaleLinear<number, number>,
+    y: d3.ScaleLogarithmic<number, number>,
+    basep: number,
+    tan: number,
+    clipId = 'clipper',
+    theme = LIGHT_THEME
+): void {
+    const bandline = d3.line<[number, number]>()
+        .x(([t, p]) => x(t) + (y(basep) - y(p)) / tan)
+        .y(([, p]) => y(p));
+
+    const bands = (['temp', 'dwpt'] as const)
+        .map(field => ({
+            field,
+            lower: stats ? stats.lower.filter(d => d[field] !== undefined) : [],
+            upper: stats ? stats.upper.filter(d => d[field] !== undefined) : []
+        }))
+        .filter(band => band.lower.length >= 2);
+
+    group.selectAll<SVGPathElement, typeof bands[number]>('path.spread')
+        .data(bands, d => d.field)
+        .join('path')
+        .attr('class', d => `${d.field} spread`)
+        .attr('clip-path', `url(#${clipId})`)
+        .attr('d', ({ field, lower, upper }) => bandline([
+            ...lower.map((d): [number, number] => [d[field]!, d.press]),
+            ...upper.slice().reverse().map((d): [number, number] => [d[field]!, d.press])
+        ]) + 'Z')
+        .style('fill', d => d.field === 'temp' ? theme.fills.tempSpread : theme.fills.dwptSpread)
+        .style('stroke', 'none')
+        .style('opacity', 0.4)
+        .style('pointer-events', 'none'); // Keep the hover overlay below reachable
 }
 
 /**
- * Add tooltips to the chart
+ * Add tooltips to the chart. The values are interpolated to the pressure under the
+ * pointer, heights are shown above sea and above ground level. Besides temperature and
+ * dew point, the readout shows the given derived traces and the equivalent potential
+ * temperature. The focus markers and the hover overlay are created once; later calls
+ * only rebind the handlers to the current data and scales. With onPointer the overlay
+ * reports the pointer pressure, or undefined when the pointer leaves, instead of moving
+ * the focus itself, so that it can be kept in step with the side panel.
+ *
+ * @returns Function that moves the focus to a pressure, or hides it without one
  */
 export function setupTooltips(
     data: SkewTMeasurement[],
@@ -213,190 +941,466 @@ export function setupTooltips(
     x: d3.ScaleLinear<number, number>,
     basep: number,
     tan: number,
-    unit: string
-): void {
-    const bisectTemp = d3.bisector((d: SkewTMeasurement) => d.press).left;
-
-    // Temperature focus
-    const tmpcfocus = skewtgroup.append('g')
-        .attr('class', 'focus tmpc')
-        .style('display', 'none');
-
-    tmpcfocus.append('circle')
-        .attr('r', 4)
-        .style('fill', 'red')
-        .style('stroke', 'none');
-
-    tmpcfocus.append('text')
-        .attr('x', 9)
-        .attr('dy', '.35em')
-        .style('fill', 'red');
-
-    // Dew point focus
-    const dwpcfocus = skewtgroup.append('g')
-        .attr('class', 'focus dwpc')
-        .style('display', 'none');
-
-    dwpcfocus.append('circle')
-        .attr('r', 4)
-        .style('fill', 'green')
-        .style('stroke', 'none');
-
-    dwpcfocus.append('text')
-        .attr('x', -9)
-        .attr('text-anchor', 'end')
-        .attr('dy', '.35em')
-        .style('fill', 'green');
-
-    // Height focus
-    const hghtfocus = skewtgroup.append('g')
-        .attr('class', 'focus')
-        .style('display', 'none');
-
-    hghtfocus.append('text')
-        .attr('x', 0)
-        .attr('text-anchor', 'start')
-        .attr('dy', '.35em')
-        .style('font-size', '12px');
-
-    // Wind speed focus
-    const wspdfocus = skewtgroup.append('g')
-        .attr('class', 'focus windspeed')
-        .style('display', 'none');
-
-    wspdfocus.append('text')
-        .attr('x', 0)
-        .attr('text-anchor', 'start')
-        .attr('dy', '.35em')
-        .style('font-size', '12px');
+    units: SkewTUnits,
+    theme = LIGHT_THEME,
+    traces: DerivedTrace[] = [],
+    onPointer?: (press: number | undefined) => void
+): (press?: number) => void {
+    const ground = heightsAboveGround(data);
+
+    // Temperature, dew point and derived trace markers with theta-e below the temperature,
+    // height readout on the left, wind speed on the right
+    const markers = ['tmpc', 'dwpc', ...traces];
+    const focus = skewtgroup.selectAll<SVGGElement, string>(':scope > g.focus')
+        .data([...markers, 'thetae', 'hght', 'windspeed'], d => d)
+        .join(enter => {
+            const g = enter.append('g')
+                .attr('class', d => `focus ${d}`)
+                .style('display', 'none');
+            g.filter(d => markers.includes(d))
+                .append('circle')
+                .attr('r', d => d === 'tmpc' || d === 'dwpc' ? 4 : 3)
+                .style('stroke', 'none');
+            g.append('text')
+                .attr('x', d => d === 'tmpc' || d === 'thetae' ? 9 : d === 'dwpc' ? -9 : 0)
+                .attr('text-anchor', d => d === 'dwpc' ? 'end' : traces.includes(d as DerivedTrace) ? 'middle' : 'start')
+                .attr('dy', d => d === 'wetBulb' || d === 'thetae' ? '1.6em' : d === 'virtualTemp' ? '-1em' : '.35em');
+            return g;
+        });
+
+    const color = (d: string) => {
+        switch (d) {
+            case 'tmpc': return theme.tooltip.temp;
+            case 'dwpc': return theme.tooltip.dwpt;
+            case 'wetBulb': return theme.tooltip.wetBulb;
+            case 'virtualTemp': return theme.tooltip.virtualTemp;
+            default: return theme.tooltip.text;
+        }
+    };
+    focus.select('circle')
+        .style('fill', color);
+    focus.select('text')
+        .style('fill', color)
+        .style('font-size', d => d === 'hght' || d === 'windspeed' ? `${theme.font.size}px` : null);
+
+    const tmpcfocus = focus.filter(d => d === 'tmpc');
+    const dwpcfocus = focus.filter(d => d === 'dwpc');
+    const thetaefocus = focus.filter(d => d === 'thetae');
+    const hghtfocus = focus.filter(d => d === 'hght');
+    const wspdfocus = focus.filter(d => d === 'windspeed');
 
     // Add hover overlay
-    container.append('rect')
-        .attr('class', 'overlay')
+    const pointer = onPointer ?? show;
+    child(container, 'rect', 'overlay')
         .attr('width', w)
         .attr('height', h)
         .style('fill', 'white')
         .style('opacity', 0)
         .style('pointer-events', 'all')
-        .on('mouseover', function () {
+        .on('mouseout', () => pointer(undefined))
+        .on('mousemove', function (event) {
+            pointer(y.invert(d3.pointer(event, this)[1])); // y value of the mouse pointer in pressure space
+        });
+
+    return show;
+
+    function show(y0?: number) {
+        if (y0 === undefined) {
+            focus.style('display', 'none');
+            return;
+        }
+        focus.style('display', null);
+
+        // Interpolate the sounding to the pointer level
+        const d = interpolateToPressure(data, y0);
+        const agl = fieldAtPressure(ground, 'hght', y0);
+
+        // Position temperature focus
+        if (typeof d.temp === 'number' && d.temp > -1000) {
+            tmpcfocus.attr('transform', `translate(${x(d.temp) + (y(basep) - y(d.press)) / tan},${y(d.press)})`);
+            tmpcfocus.select('text').text(formatTemperature(d.temp, units.temperature));
             tmpcfocus.style('display', null);
-            dwpcfocus.style('display', null);
-            hghtfocus.style('display', null);
-            wspdfocus.style('display', null);
-        })
-        .on('mouseout', function () {
+        } else {
             tmpcfocus.style('display', 'none');
-            dwpcfocus.style('display', 'none');
-            hghtfocus.style('display', 'none');
-            wspdfocus.style('display', 'none');
-        })
-    container.append('rect')
-        .attr('class', 'overlay')
-        .attr('width', w)
-        .attr('height', h)
-        .style('fill', 'white')
-        .style('opacity', 0)
-        .style('pointer-events', 'all')
-        .on('mouseover', function () {
-            tmpcfocus.style('display', null);
+        }
+
+        // Position dew point focus
+        if (typeof d.dwpt === 'number' && d.dwpt > -1000) {
+            dwpcfocus.attr('transform', `translate(${x(d.dwpt) + (y(basep) - y(d.press)) / tan},${y(d.press)})`);
+            dwpcfocus.select('text').text(formatTemperature(d.dwpt, units.temperature));
             dwpcfocus.style('display', null);
-            hghtfocus.style('display', null);
-            wspdfocus.style('display', null);
-        })
-        .on('mouseout', function () {
-            tmpcfocus.style('display', 'none');
+        } else {
             dwpcfocus.style('display', 'none');
+        }
+
+        // Derived traces and theta-e need both temperature and dew point
+        const moist = typeof d.temp === 'number' && d.temp > -1000 && typeof d.dwpt === 'number' && d.dwpt > -1000;
+        traces.forEach(trace => {
+            const tracefocus = focus.filter(k => k === trace);
+            if (!moist) {
+                tracefocus.style('display', 'none');
+                return;
+            }
+            const t = trace === 'wetBulb'
+                ? wetBulbTemperature(d.temp!, d.dwpt!, d.press)
+                : virtualTemperature(d.temp!, d.dwpt!, d.press);
+            tracefocus.attr('transform', `translate(${x(t) + (y(basep) - y(d.press)) / tan},${y(d.press)})`);
+            tracefocus.select('text').text(formatTemperature(t, units.temperature));
+            tracefocus.style('display', null);
+        });
+
+        if (moist) {
+            const thetaE = equivalentPotentialTemperature(d.temp!, d.dwpt!, d.press);
+            thetaefocus.attr('transform', `translate(${x(d.temp!) + (y(basep) - y(d.press)) / tan},${y(d.press)})`);
+            thetaefocus.select('text').text(`θe ${Math.round(thetaE)} K`);
+            thetaefocus.style('display', null);
+        } else {
+            thetaefocus.style('display', 'none');
+        }
+
+        // Position height focus
+        hghtfocus.attr('transform', `translate(0,${y(d.press)})`);
+        if (typeof d.hght === 'number') {
+            const above = agl === undefined ? '' : ` (${formatHeight(agl, units.height)} AGL)`;
+            hghtfocus.select('text').text(`-- ${formatHeight(d.hght, units.height)}${above}`);
+            hghtfocus.style('display', null);
+        } else {
             hghtfocus.style('display', 'none');
+        }
+
+        // Position wind speed focus
+        wspdfocus.attr('transform', `translate(${w - 65},${y(d.press)})`);
+        if (typeof d.wspd === 'number' && d.wspd >= 0) {
+            wspdfocus.select('text').text(formatWindSpeed(d.wspd, units.windSpeed));
+            wspdfocus.style('display', null);
+        } else {
             wspdfocus.style('display', 'none');
-        })
-        .on('mousemove', function (event) {
-            const y0 = y.invert(d3.pointer(event, this)[1]); // get y value of mouse pointer in pressure space
-            const i = bisectTemp(data, y0, 1, data.length - 1);
-            const d0 = data[i - 1];
-            const d1 = data[i];
-            const d = Math.abs(y0 - d0.press) < Math.abs(y0 - d1.press) ? d0 : d1;
-
-            // Position temperature focus
-            if (typeof d.temp === 'number' && d.temp > -1000) {
-                tmpcfocus.attr('transform', `translate(${x(d.temp) + (y(basep) - y(d.press)) / tan},${y(d.press)})`);
-                tmpcfocus.select('text').text(`${Math.round(d.temp)}°C`);
-                tmpcfocus.style('display', null);
-            } else {
-                tmpcfocus.style('display', 'none');
-            }
+        }
+    }
+}
 
-            // Position dew point focus
-            if (typeof d.dwpt === 'number' && d.dwpt > -1000) {
-                dwpcfocus.attr('transform', `translate(${x(d.dwpt) + (y(basep) - y(d.press)) / tan},${y(d.press)})`);
-                dwpcfocus.select('text').text(`${Math.round(d.dwpt)}°C`);
-                dwpcfocus.style('display', null);
-            } else {
-                dwpcfocus.style('display', 'none');
-            }
+/**
+ * Draw draggable handles on the surface temperature and dew point. A handle moves
+ * along the surface isobar and reports its new value in °C while dragged.
+ */
+export function drawSurfaceHandles(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    surface: SkewTMeasurement | undefined,
+    x: d3.ScaleLinear<number, number>,
+    y: d3.ScaleLogarithmic<number, number>,
+    basep: number,
+    tan: number,
+    onDrag: (field: 'temp' | 'dwpt', value: number) => void,
+    onEnd: () => void,
+    theme = LIGHT_THEME
+): void {
+    type Handle = { field: 'temp' | 'dwpt', value: number };
+    const handles: Handle[] = surface
+        ? [{ field: 'temp', value: surface.temp! }, { field: 'dwpt', value: surface.dwpt! }]
+        : [];
+    const py = surface ? y(surface.press) : 0;
+    const skew = (y(basep) - py) / tan;
 
-            // Position height focus
-            hghtfocus.attr('transform', `translate(0,${y(d.press)})`);
-            if (typeof d.hght === 'number') {
-                hghtfocus.select('text').text(`-- ${Math.round(d.hght)} m`);
-                hghtfocus.style('display', null);
-            } else {
-                hghtfocus.style('display', 'none');
-            }
+    // The subject is the pointer, the handle data have no position of their own
+    const drag = d3.drag<SVGCircleElement, Handle>()
+        .subject(event => ({ x: event.x, y: event.y }))
+        .on('drag', (event, d) => onDrag(d.field, x.invert(event.x - skew)))
+        .on('end', () => onEnd());
+
+    group.selectAll<SVGCircleElement, Handle>('circle.surface-handle')
+        .data(handles, d => d.field)
+        .join('circle')
+        .attr('class', d => `surface-handle ${d.field} ${INTERACTIVE_CLASS}`)
+        .attr('r', 6)
+        .attr('cx', d => x(d.value) + skew)
+        .attr('cy', py)
+        .style('fill', d => d.field === 'temp' ? theme.lines.temp.color : theme.lines.dwpt.color)
+        .style('stroke', theme.background)
+        .style('stroke-width', '1.5px')
+        .style('cursor', 'ew-resize')
+        .call(drag);
+}
 
-            // Position wind speed focus
-            wspdfocus.attr('transform', `translate(${w - 65},${y(d.press)})`);
-            if (typeof d.wspd === 'number' && d.wspd >= 0) {
-                const speedDisplay = Math.round(convertWindSpeed(d.wspd, unit) * 10) / 10;
-                wspdfocus.select('text').text(`${speedDisplay} ${unit}`);
-                wspdfocus.style('display', null);
+/**
+ * Lays out legend entries left to right, wrapping into rows centred in the given width
+ *
+ * @param entries Legend entries in display order
+ * @param width Width available to the legend in pixels
+ * @returns The entries with their positions, and the number of rows
+ */
+export function legendLayout<E extends SkewTLegendEntry>(entries: E[], width: number): { items: Array<E & { x: number, y: number }>, rows: number } {
+    const entryWidth = (d: SkewTLegendEntry) => (d.swatch === 'box' ? 15 : 25) + d.name.length * 6.5 + 20;
+    const rows: E[][] = [[]];
+    let used = 0;
+    entries.forEach(entry => {
+        const ew = entryWidth(entry);
+        if (used + ew > width && rows[rows.length - 1].length) {
+            rows.push([]);
+            used = 0;
+        }
+        rows[rows.length - 1].push(entry);
+        used += ew;
+    });
+
+    const items = rows.flatMap((row, r) => {
+        let x = Math.max(0, (width - d3.sum(row, entryWidth) + 20) / 2);
+        return row.map(entry => {
+            const item = { ...entry, x, y: r * LEGEND_ROW_HEIGHT };
+            x += entryWidth(entry);
+            return item;
+        });
+    });
+    return { items, rows: entries.length ? rows.length : 0 };
+}
+
+/**
+ * Draw the legend: one entry per line of the chart, wrapped into centred rows, see legendLayout
+ */
+export function drawLegend(
+    legend: d3.Selection<SVGGElement, unknown, null, undefined>,
+    entries: SkewTLegendEntry[],
+    width: number,
+    theme = LIGHT_THEME
+): void {
+    type LegendItem = SkewTLegendEntry & { x: number, y: number };
+    const { items } = legendLayout(entries, width);
+
+    legend.selectAll<SVGGElement, LegendItem>(':scope > g.legend-entry')
+        .data(items, d => d.name)
+        .join(enter => {
+            const g = enter.append('g').attr('class', 'legend-entry');
+            g.append('text')
+                .attr('y', 10)
+                .attr('alignment-baseline', 'middle');
+            return g;
+        })
+        .attr('transform', d => `translate(${d.x}, ${d.y})`)
+        .each(function (d) {
+            const g = d3.select(this);
+
+            // The swatch is replaced, an entry may switch between line and band
+            g.select('.swatch').remove();
+            if (d.swatch === 'line') {
+                g.insert('line', 'text')
+                    .attr('class', 'swatch')
+                    .attr('x1', 0)
+                    .attr('x2', 20)
+                    .attr('y1', 8)
+                    .attr('y2', 8)
+                    .style('stroke', d.color)
+                    .style('stroke-width', '2px')
+                    .style('stroke-dasharray', d.dashArray || 'none');
             } else {
-                wspdfocus.style('display', 'none');
+                g.insert('rect', 'text')
+                    .attr('class', 'swatch')
+                    .attr('y', d.swatch === 'band' ? 2 : 0)
+                    .attr('width', d.swatch === 'band' ? 20 : 10)
+                    .attr('height', d.swatch === 'band' ? 11 : 15)
+                    .style('fill', d.color)
+                    .style('opacity', d.swatch === 'band' ? 0.6 : 1);
             }
+
+            g.select('text')
+                .attr('x', d.swatch === 'box' ? 15 : 25)
+                .text(d.name)
+                .style('fill', theme.text)
+                .style('font-size', `${theme.font.size}px`);
         });
 }
 
 /**
- * Draw the legend for the chart
+ * Draw a box listing the stability indices, laid out in rows of four entries
  */
-export function drawLegend(
-    wrapper: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+export function drawIndicesPanel(
+    panel: d3.Selection<SVGGElement, unknown, null, undefined>,
+    indices: StabilityIndices,
     w: number,
-    h: number
+    theme = LIGHT_THEME,
+    units = DEFAULT_UNITS
 ): void {
-    const legendHeight = 40;
-    const legend = wrapper.append('g')
-        .attr('class', 'legend')
-        .attr('transform', `translate(${w / 3}, ${h + legendHeight})`);
-
-    // Temperature entry
-    legend.append('rect')
-        .attr('x', 0)
-        .attr('y', 0)
-        .attr('width', 10)
-        .attr('height', 15)
-        .style('fill', 'red');
-
-    legend.append('text')
-        .attr('x', 15)
-        .attr('y', 10)
-        .text('Air Temperature')
-        .attr('alignment-baseline', 'middle')
-        .style('font-size', '12px');
-
-    // Dew point entry
-    legend.append('rect')
-        .attr('x', 120)
-        .attr('y', 0)
-        .attr('width', 10)
-        .attr('height', 15)
-        .style('fill', 'green');
-
-    legend.append('text')
-        .attr('x', 135)
-        .attr('y', 10)
-        .text('Dew Point Temperature')
-        .attr('alignment-baseline', 'middle')
-        .style('font-size', '12px');
+    const fmt = (v: number | undefined, digits: number, unit = '') =>
+        v === undefined ? '–' : `${v.toFixed(digits)}${unit}`;
+    const delta = (v: number | undefined) => v === undefined ? '–' : formatTemperatureDifference(v, units.temperature);
+    const level = (l: { press: number, hght?: number } | undefined) =>
+        l === undefined ? '–' : (l.hght === undefined ? formatPressure(l.press, units.pressure) : formatHeight(l.hght, units.height));
+
+    // The temperature indices are differences, so they convert without an offset; SWEAT has no unit
+    const entries: Array<[string, string]> = [
+        ['LI', delta(indices.liftedIndex)],
+        ['SI', delta(indices.showalterIndex)],
+        ['K', delta(indices.kIndex)],
+        ['TT', delta(indices.totalTotals)],
+        ['SWEAT', fmt(indices.sweatIndex, 0)],
+        ['CAPE', fmt(indices.cape, 0, ' J/kg')],
+        ['CIN', fmt(indices.cin, 0, ' J/kg')],
+        ['PW', indices.precipitableWater === undefined ? '–' : formatWaterDepth(indices.precipitableWater, units.height)],
+        ['LCL', level(indices.lcl)],
+        ['LFC', level(indices.lfc)],
+        ['EL', level(indices.el)]
+    ];
+    const columns = 4;
+    const colWidth = w / columns;
+    const rowHeight = 16;
+
+    child(panel, 'rect', 'indices-bg')
+        .attr('width', w)
+        .attr('height', Math.ceil(entries.length / columns) * rowHeight + 8)
+        .style('fill', theme.panel.fill)
+        .style('stroke', theme.panel.stroke)
+        .style('stroke-width', '1px');
+
+    const entry = panel.selectAll<SVGTextElement, [string, string]>('text.index-entry')
+        .data(entries, d => d[0])
+        .join(enter => {
+            const text = enter.append('text')
+                .attr('class', 'index-entry');
+            text.append('tspan')
+                .attr('class', 'index-name')
+                .style('font-weight', 'bold');
+            text.append('tspan')
+                .attr('class', 'index-value');
+            return text;
+        })
+        .attr('x', (_d, i) => (i % columns) * colWidth + 8)
+        .attr('y', (_d, i) => Math.floor(i / columns) * rowHeight + 16)
+        .style('fill', theme.text)
+        .style('font-size', `${theme.font.panelSize}px`);
+
+    entry.select('tspan.index-name')
+        .text(d => `${d[0]}: `);
+
+    entry.select('tspan.index-value')
+        .text(d => d[1]);
+}
+
+/**
+ * Draw a hodograph of the sounding winds into a square of the given size,
+ * with segments coloured by height above the lowest level
+ */
+export function drawHodograph(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    data: SkewTMeasurement[],
+    size: number,
+    unit: WindSpeedUnit,
+    showStormMotion = true,
+    theme = LIGHT_THEME
+): void {
+    const winds = data
+        .filter(d =>
+            typeof d.wdir === 'number' && d.wdir >= 0 &&
+            typeof d.wspd === 'number' && d.wspd >= 0
+        )
+        .sort((a, b) => b.press - a.press)
+        .map(d => ({
+            hght: d.hght,
+            ...windComponents(d.wdir!, convertWindSpeed(d.wspd!, unit))
+        }));
+
+    const center = size / 2;
+    const maxSpeed = d3.max(winds, d => Math.sqrt(d.u * d.u + d.v * d.v)) || 1;
+    const ringStep = d3.tickStep(0, maxSpeed, 4);
+    const rings = d3.range(1, Math.ceil(maxSpeed / ringStep) + 1).map(i => i * ringStep);
+    const r = d3.scaleLinear().domain([0, rings[rings.length - 1]]).range([0, center - 12]);
+    const px = (u: number) => center + r(u);
+    const py = (v: number) => center - r(v);
+
+    child(group, 'rect', 'hodograph-bg')
+        .attr('width', size)
+        .attr('height', size)
+        .style('fill', theme.background)
+        .style('stroke', theme.panel.stroke)
+        .style('stroke-width', '1px');
+
+    // Range rings, labelled along the positive u axis
+    group.selectAll<SVGCircleElement, number>('circle.hodoring')
+        .data(rings, d => d)
+        .join('circle')
+        .attr('class', 'gridline hodoring')
+        .attr('cx', center)
+        .attr('cy', center)
+        .attr('r', d => r(d))
+        .call(stroke, theme.grid.isobar)
+        .style('fill', 'none');
+
+    group.selectAll<SVGTextElement, number>('text.hodoring-label')
+        .data(rings, d => d)
+        .join('text')
+        .attr('class', 'hodoring-label')
+        .attr('x', d => center + r(d) + 2)
+        .attr('y', center + 10)
+        .text(d => d)
+        .style('fill', theme.mutedText)
+        .style('font-size', `${theme.font.labelSize}px`);
+
+    child(group, 'text', 'hodograph-unit')
+        .attr('x', size - 4)
+        .attr('y', size - 4)
+        .attr('text-anchor', 'end')
+        .text(UNIT_SYMBOLS[unit])
+        .style('fill', theme.mutedText)
+        .style('font-size', `${theme.font.labelSize}px`);
+
+    // Axes through the origin
+    group.selectAll<SVGLineElement, number[]>('line.hodoaxis')
+        .data([[0, center, size, center], [center, 0, center, size]])
+        .join('line')
+        .attr('class', 'gridline hodoaxis')
+        .attr('x1', d => d[0])
+        .attr('y1', d => d[1])
+        .attr('x2', d => d[2])
+        .attr('y2', d => d[3])
+        .call(stroke, theme.grid.hodographAxis);
+
+    // Hodograph trace, one segment per pair of levels
+    const base = d3.min(winds, d => d.hght);
+    const segments = d3.pairs(winds);
+    const bandColor = (hght?: number) => {
+        if (hght === undefined || base === undefined) return theme.mutedText;
+        return HODOGRAPH_HEIGHT_BANDS.find(b => hght - base < b.top)!.color;
+    };
+
+    group.selectAll<SVGLineElement, typeof segments[number]>('line.hodograph-segment')
+        .data(segments)
+        .join('line')
+        .attr('class', 'hodograph-segment')
+        .attr('x1', d => px(d[0].u))
+        .attr('y1', d => py(d[0].v))
+        .attr('x2', d => px(d[1].u))
+        .attr('y2', d => py(d[1].v))
+        .style('stroke', d => bandColor(d[0].hght))
+        .style('stroke-width', '2px')
+        .style('stroke-linecap', 'round');
+
+    const motion = showStormMotion ? bunkersStormMotion(data) : null;
+    const marks: Array<[string, { u: number, v: number }]> = motion ? [['RM', motion.right], ['LM', motion.left]] : [];
+
+    const mark = group.selectAll<SVGGElement, [string, { u: number, v: number }]>('g.storm-motion')
+        .data(marks, d => d[0])
+        .join(enter => {
+            const g = enter.append('g')
+                .attr('class', d => `storm-motion ${d[0].toLowerCase()}`);
+            g.append('circle')
+                .attr('r', 3)
+                .style('fill', 'none')
+                .style('stroke-width', '1px');
+            g.append('text')
+                .attr('x', 5)
+                .attr('dy', '.35em')
+                .text(d => d[0]);
+            return g;
+        })
+        .attr('transform', d => {
+            const u = convertWindSpeed(d[1].u, unit);
+            const v = convertWindSpeed(d[1].v, unit);
+            return `translate(${px(u)},${py(v)})`;
+        });
+
+    mark.select('circle')
+        .style('stroke', theme.text);
+
+    mark.select('text')
+        .style('fill', theme.text)
+        .style('font-size', `${theme.font.labelSize}px`);
 }
 
 /**
@@ -411,78 +1415,178 @@ export function getSmallestPressureValue(measurements: SkewTMeasurement[]): numb
 }
 
 /**
- * Add download button to the chart
+ * Title line of a chart
  */
-export function addDownloadButton(
-    wrapper: d3.Selection<SVGSVGElement, unknown, null, undefined>,
-    w: number,
-    siteName: string,
-    sourceName: string,
-    onDownload?: (svgString: string) => void
+export function skewTTitle(siteName: string, sourceName: string): string {
+    return `Site: ${siteName} / Data source: ${normalizeString(sourceName)}`;
+}
+
+/**
+ * Draw the centred title line at the top of the given svg
+ */
+export function drawTitle<P extends SVGElement>(
+    parent: d3.Selection<P, unknown, null, undefined>,
+    title: string,
+    width: number,
+    theme = LIGHT_THEME
 ): void {
-    const download = () => {
-        const element = wrapper.node();
-        if (element) {
-            const serializer = new XMLSerializer();
-            const svgStr = serializer.serializeToString(element);
-
-            // If custom download handler is provided, use it
-            if (onDownload) {
-                onDownload(svgStr);
-                return;
-            }
+    child(parent, 'g', 'title')
+        .attr('transform', `translate(${width / 2}, 20)`)
+        .selectAll<SVGTextElement, string>('text')
+        .data([title])
+        .join('text')
+        .attr('text-anchor', 'middle')
+        .text(d => d)
+        .style('fill', theme.text)
+        .style('font-family', () => theme.font.family || null);
+}
 
-            // Default download behavior
-            const img = new Image();
-            const blob = new Blob([svgStr], { type: 'image/svg+xml' });
-            const url = window.URL.createObjectURL(blob);
-
-            img.src = url;
-            img.onload = () => {
-                const canvas = document.createElement("canvas");
-                canvas.height = parseInt(wrapper.attr('height') || '700');
-                canvas.width = parseInt(wrapper.attr('width') || '500');
-                const ctx = canvas.getContext("2d");
-                if (ctx) {
-                    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-                } else {
-                    console.error('Canvas context creation failed');
-                }
-
-                const imgURL = canvas.toDataURL("image/png");
-                const dlLink = document.createElement('a');
-                dlLink.download = `SkewT-${siteName}-${sourceName}.png`;
-                dlLink.href = imgURL;
-                dlLink.dataset.downloadurl = ["image/png", dlLink.download, dlLink.href].join(':');
-
-                document.body.appendChild(dlLink);
-                dlLink.click();
-                document.body.removeChild(dlLink);
-                window.URL.revokeObjectURL(url);
-            };
-        }
-    };
+/**
+ * Size an svg as a standalone image of a chart and draw the title line on top; the
+ * chart goes below it at y = TITLE_HEIGHT
+ */
+export function drawImageFrame(
+    image: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+    width: number,
+    height: number,
+    title: string,
+    theme = LIGHT_THEME
+): void {
+    image
+        .attr('width', `${width}px`)
+        .attr('height', `${height + TITLE_HEIGHT}px`)
+        .attr('viewBox', `0 0 ${width} ${height + TITLE_HEIGHT}`);
+
+    child(image, 'rect', 'title-background')
+        .attr('width', width)
+        .attr('height', TITLE_HEIGHT)
+        .style('fill', theme.background);
+
+    drawTitle(image, title, width, theme);
+}
 
-    const downloadButton = wrapper.append('g')
-        .attr('class', 'download-button')
-        .attr('transform', `translate(${w + 20},20)`)
+/**
+ * Draw a square toolbar button with a tooltip title
+ */
+function drawButton(
+    button: d3.Selection<SVGGElement, unknown, null, undefined>,
+    title: string,
+    onClick: () => void,
+    theme: SkewTTheme
+): void {
+    button
         .style('cursor', 'pointer')
-        .on('click', download);
+        .on('click', onClick);
 
-    downloadButton.append('rect')
+    child(button, 'rect', 'button-bg')
         .attr('width', 30)
         .attr('height', 30)
         .attr('rx', 5)
-        .style('fill', '#f0f0f0')
-        .style('stroke', '#ccc')
+        .style('fill', theme.button.fill)
+        .style('stroke', theme.button.stroke)
         .style('stroke-width', '1px');
 
+    child(button, 'title', 'button-title')
+        .text(title);
+}
+
+/**
+ * Add the download button to the chart. With several formats it opens a menu to
+ * pick one, with a single format it exports directly.
+ */
+export function addDownloadButton(
+    button: d3.Selection<SVGGElement, unknown, null, undefined>,
+    formats: SkewTExportFormat[],
+    onSelect: (format: SkewTExportFormat) => void,
+    pngScale = DEFAULT_PNG_SCALE,
+    theme = LIGHT_THEME
+): void {
+    const labels: Record<SkewTExportFormat, string> = {
+        svg: 'SVG image',
+        png: `PNG image (${pngScale}×)`,
+        csv: 'Sounding as CSV',
+        json: 'Sounding as JSON'
+    };
+    const entryHeight = 22;
+    const menuWidth = 130;
+
+    const menu = child(button, 'g', 'export-menu');
+    const setOpen = (open: boolean) => menu.style('display', () => open ? null : 'none');
+
+    drawButton(
+        button,
+        formats.length === 1 ? `Download ${labels[formats[0]]}` : 'Download chart or data',
+        () => {
+            if (formats.length === 1) onSelect(formats[0]);
+            else setOpen(menu.style('display') === 'none');
+        },
+        theme
+    );
+
     // Camera icon
-    downloadButton.append('path')
+    child(button, 'path', 'button-icon')
         .attr('d', "M15,8.5c-3.59,0-6.5,2.91-6.5,6.5s2.91,6.5,6.5,6.5s6.5-2.91,6.5-6.5S18.59,8.5,15,8.5 M15,20c-2.76,0-5-2.24-5-5s2.24-5,5-5s5,2.24,5,5S17.76,20,15,20 M25,5h-5l-2-2h-6l-2,2H5C3.9,5,3,5.9,3,7v14c0,1.1,0.9,2,2,2h20c1.1,0,2-0.9,2-2V7C27,5.9,26.1,5,25,5")
         .attr('transform', 'translate(1.5, 1.5) scale(0.9)')
-        .style('fill', '#333');
+        .style('fill', theme.button.icon);
+
+    // Menu to the left of the button and above it, closed on every redraw
+    menu
+        .attr('transform', `translate(${-menuWidth - 5}, 0)`)
+        .style('display', 'none')
+        .raise();
+
+    menu.selectAll<SVGGElement, SkewTExportFormat>(':scope > g.menu-entry')
+        .data(formats.length > 1 ? formats : [], d => d)
+        .join(enter => {
+            const g = enter.append('g').attr('class', 'menu-entry');
+            g.append('rect')
+                .attr('width', menuWidth)
+                .attr('height', entryHeight);
+            g.append('text')
+                .attr('x', 8)
+                .attr('y', entryHeight / 2)
+                .attr('dy', '0.35em');
+            return g;
+        })
+        .order()
+        .attr('transform', (_, i) => `translate(0, ${i * entryHeight})`)
+        .on('click', (event: MouseEvent, d) => {
+            // The menu is part of the button, which would open it again
+            event.stopPropagation();
+            setOpen(false);
+            onSelect(d);
+        })
+        .each(function (d) {
+            const g = d3.select(this);
+            g.select('rect')
+                .style('fill', theme.button.fill)
+                .style('stroke', theme.button.stroke)
+                .style('stroke-width', '1px');
+            g.select('text')
+                .text(labels[d])
+                .style('fill', theme.text)
+                .style('font-size', `${theme.font.labelSize}px`);
+        });
+}
 
-    downloadButton.append('title')
-        .text('Download SkewT chart as PNG');
-}
\ No newline at end of file
+/**
+ * Add the button that resets the zoom to the full chart
+ */
+export function addResetZoomButton(
+    button: d3.Selection<SVGGElement, unknown, null, undefined>,
+    onReset: () => void,
+    theme = LIGHT_THEME
+): void {
+    drawButton(button, 'Reset zoom', onReset, theme);
+
+    // Circular arrow icon
+    child(button, 'path', 'button-icon')
+        .attr('d', 'M22,15a7,7 0 1,1 -2.05,-4.95')
+        .style('fill', 'none')
+        .style('stroke', theme.button.icon)
+        .style('stroke-width', '2px');
+
+    child(button, 'path', 'button-icon arrow')
+        .attr('d', 'M23,6 L23,12 L17,12 Z')
+        .style('fill', theme.button.icon);
+}
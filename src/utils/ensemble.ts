@@ -0,0 +1,67 @@
+import * as d3 from 'd3';
+import { EnsembleStatistics, SkewTMeasurement } from '../types';
+import { interpolateLogP } from './interpolation';
+
+/**
+ * Builds a log-pressure interpolator for one field of a profile
+ */
+function profileInterpolator(data: SkewTMeasurement[], field: 'temp' | 'dwpt'): (press: number) => number | undefined {
+    const levels = data
+        .filter(d => typeof d[field] === 'number' && d[field]! > -1000 && d.press > 0)
+        .sort((a, b) => b.press - a.press);
+
+    return (press: number) => {
+        const i = levels.findIndex(d => d.press <= press);
+        if (i < 0) return undefined;
+        if (levels[i].press === press) return levels[i][field];
+        if (i === 0) return undefined;
+        return interpolateLogP(press, levels[i - 1].press, levels[i - 1][field]!, levels[i].press, levels[i][field]!);
+    };
+}
+
+/**
+ * Computes the ensemble mean and percentile spread of temperature and dew point.
+ * Statistics are evaluated at every pressure level found in any member, wherever
+ * all members cover that level.
+ *
+ * @param members Measurement points of each ensemble member
+ * @param percentiles Lower and upper percentiles (0-100) of the spread
+ * @returns Mean, lower and upper profiles ordered from the bottom up
+ */
+export function ensembleStatistics(members: SkewTMeasurement[][], percentiles: [number, number] = [10, 90]): EnsembleStatistics {
+    const stats: EnsembleStatistics = { mean: [], lower: [], upper: [] };
+    if (!members.length) return stats;
+
+    const temps = members.map(m => profileInterpolator(m, 'temp'));
+    const dwpts = members.map(m => profileInterpolator(m, 'dwpt'));
+    const levels = Array.from(new Set(members.flatMap(m => m.map(d => d.press))))
+        .filter(p => p > 0)
+        .sort((a, b) => b - a);
+
+    levels.forEach(press => {
+        const t = temps.map(f => f(press));
+        const td = dwpts.map(f => f(press));
+        const tOk = t.every(v => v !== undefined);
+        const tdOk = td.every(v => v !== undefined);
+        if (!tOk && !tdOk) return;
+
+        const tv = (tOk ? t : []) as number[];
+        const tdv = (tdOk ? td : []) as number[];
+        const sortedT = tv.slice().sort(d3.ascending);
+        const sortedTd = tdv.slice().sort(d3.ascending);
+
+        stats.mean.push({ press, temp: d3.mean(tv), dwpt: d3.mean(tdv) });
+        stats.lower.push({
+            press,
+            temp: d3.quantileSorted(sortedT, percentiles[0] / 100),
+            dwpt: d3.quantileSorted(sortedTd, percentiles[0] / 100)
+        });
+        stats.upper.push({
+            press,
+            temp: d3.quantileSorted(sortedT, percentiles[1] / 100),
+            dwpt: d3.quantileSorted(sortedTd, percentiles[1] / 100)
+        });
+    });
+
+    return stats;
+}
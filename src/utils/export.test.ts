@@ -0,0 +1,31 @@
+import { chartExportSource, soundingToCsv } from './export';
+import { DEFAULT_UNITS, LIGHT_THEME } from '../constants';
+
+describe('chartExportSource', () => {
+    const svg = {} as SVGSVGElement;
+    const data = [
+        { press: 500, hght: 5800, temp: -12, dwpt: -25 },
+        { press: 1000, hght: 110, temp: 25, dwpt: -9999 },
+        { press: 850, hght: 1500, temp: 17, dwpt: 14, wspd: -5 }
+    ];
+
+    it('exports the sounding as drawn: sorted, without sentinels or impossible values', () => {
+        const source = chartExportSource(svg, data, { siteName: 'OAX', sourceName: 'RAOB' });
+        expect(source.data).toEqual([
+            { press: 1000, hght: 110, temp: 25 },
+            { press: 850, hght: 1500, temp: 17, dwpt: 14 },
+            { press: 500, hght: 5800, temp: -12, dwpt: -25 }
+        ]);
+        expect(source).toMatchObject({ svg, siteName: 'OAX', sourceName: 'RAOB', width: 750, height: 620, theme: LIGHT_THEME });
+        expect(source.units).toEqual(DEFAULT_UNITS);
+    });
+
+    it('takes the size, theme and units of the chart options', () => {
+        const source = chartExportSource(svg, data, {
+            siteName: 'OAX', sourceName: 'RAOB', width: 500, height: 400, temperatureUnit: 'F', heightUnit: 'ft', pressureUnit: 'inHg', speedUnit: 'kt'
+        });
+        expect(source.width).toBe(500);
+        expect(source.units).toEqual({ temperature: 'F', height: 'ft', pressure: 'inHg', windSpeed: 'kt' });
+        expect(soundingToCsv(source.data, source.units).split('\n')[1]).toBe('29.53,360.892,77,,,');
+    });
+});
@@ -0,0 +1,243 @@
+import * as d3 from 'd3';
+import {
+    SkewTExportFormat,
+    SkewTExportOptions,
+    SkewTExportSource,
+    SkewTMeasurement,
+    SkewTRenderOptions,
+    SkewTUnits
+} from '../types';
+import { drawImageFrame, skewTTitle } from './drawFunctions';
+import { convertMeasurement } from './conversions';
+import { normalizeSounding } from './normalize';
+import {
+    DEFAULT_EXPORT_FILENAME,
+    DEFAULT_HEIGHT,
+    DEFAULT_HEIGHT_UNIT,
+    DEFAULT_PNG_SCALE,
+    DEFAULT_PRESSURE_UNIT,
+    DEFAULT_TEMPERATURE_UNIT,
+    DEFAULT_UNITS,
+    DEFAULT_WIDTH,
+    DEFAULT_WIND_SPEED_UNIT,
+    INTERACTIVE_CLASS,
+    LIGHT_THEME,
+    TITLE_HEIGHT
+} from '../constants';
+
+const CSV_COLUMNS = ['press', 'hght', 'temp', 'dwpt', 'wdir', 'wspd'] as const;
+
+const MIME_TYPES: Record<SkewTExportFormat, string> = {
+    svg: 'image/svg+xml',
+    png: 'image/png',
+    csv: 'text/csv',
+    json: 'application/json'
+};
+
+/**
+ * Fills in a file name template, see SkewTExportOptions.filename
+ *
+ * @param template File name without extension
+ * @param siteName Replaces {site}
+ * @param sourceName Replaces {source}
+ * @param date Time of the export, formatted in UTC
+ * @returns File name with characters that are invalid in file names replaced by "_"
+ */
+export function formatExportFilename(
+    template: string,
+    siteName: string,
+    sourceName: string,
+    date = new Date()
+): string {
+    const iso = date.toISOString(); // YYYY-MM-DDTHH:mm:ss.sssZ
+    const values: Record<string, string> = {
+        site: siteName,
+        source: sourceName,
+        date: iso.slice(0, 10),
+        time: iso.slice(11, 13) + iso.slice(14, 16),
+        timestamp: `${iso.slice(0, 19).replace(/[-:]/g, '')}Z`
+    };
+
+    return template
+        .replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+        .replace(/[\\/:*?"<>|]/g, '_');
+}
+
+/**
+ * Converts a sounding to the given units, rounded to three decimals to drop
+ * floating point noise of the conversions
+ */
+function exportedSounding(data: SkewTMeasurement[], units: SkewTUnits): SkewTMeasurement[] {
+    const round = (v: number | undefined) => v === undefined ? undefined : Math.round(v * 1000) / 1000;
+    return data.map(d => {
+        const c = convertMeasurement(d, units);
+        return {
+            press: round(c.press)!,
+            hght: round(c.hght),
+            temp: round(c.temp),
+            dwpt: round(c.dwpt),
+            wdir: round(c.wdir),
+            wspd: round(c.wspd)
+        };
+    });
+}
+
+/**
+ * Formats a sounding as CSV with a header row naming the units, e.g. "temp_C";
+ * missing values are left empty
+ *
+ * @param data Sounding with pressure in hPa, height in m, temperatures in °C and wind speed in m/s
+ * @param units Units of the CSV columns
+ * @returns CSV text
+ */
+export function soundingToCsv(data: SkewTMeasurement[], units = DEFAULT_UNITS): string {
+    const columnUnits: Record<typeof CSV_COLUMNS[number], string> = {
+        press: units.pressure,
+        hght: units.height,
+        temp: units.temperature,
+        dwpt: units.temperature,
+        wdir: 'deg',
+        wspd: units.windSpeed
+    };
+    const header = CSV_COLUMNS.map(c => `${c}_${columnUnits[c]}`).join(',');
+    const rows = exportedSounding(data, units).map(d => CSV_COLUMNS.map(c => d[c] ?? '').join(','));
+    return [header, ...rows].join('\n') + '\n';
+}
+
+/**
+ * Describes a drawn chart for exportSkewT and downloadSkewT. The sounding is normalized
+ * as for drawing, so every export of a chart carries the same data.
+ *
+ * @param svg Svg element the chart was rendered into
+ * @param data Sounding of the chart
+ * @param options Chart options the chart was drawn with
+ * @returns Export source of the chart
+ */
+export function chartExportSource(svg: SVGSVGElement, data: SkewTMeasurement[], options: SkewTRenderOptions): SkewTExportSource {
+    const {
+        siteName,
+        sourceName,
+        width = DEFAULT_WIDTH,
+        height = DEFAULT_HEIGHT,
+        theme = LIGHT_THEME,
+        temperatureUnit = DEFAULT_TEMPERATURE_UNIT,
+        heightUnit = DEFAULT_HEIGHT_UNIT,
+        pressureUnit = DEFAULT_PRESSURE_UNIT,
+        speedUnit = DEFAULT_WIND_SPEED_UNIT
+    } = options;
+    const units: SkewTUnits = { temperature: temperatureUnit, height: heightUnit, pressure: pressureUnit, windSpeed: speedUnit };
+    return { svg, data: normalizeSounding(data).data, siteName, sourceName, width, height, theme, units };
+}
+
+/**
+ * Serializes the drawn chart as a standalone SVG image with the title line on top.
+ * The view is kept as it is, e.g. zoomed; buttons, tooltips and the other interactive-only
+ * elements (see INTERACTIVE_CLASS) are left out.
+ *
+ * @param source Drawn chart
+ * @returns SVG markup
+ */
+export function chartToSvgString(source: SkewTExportSource): string {
+    const image = d3.select(d3.create('svg').node()!);
+    drawImageFrame(image, source.width, source.height, skewTTitle(source.siteName, source.sourceName), source.theme);
+
+    const chart = source.svg.cloneNode(true) as SVGSVGElement;
+    chart.setAttribute('y', String(TITLE_HEIGHT));
+    chart.querySelectorAll([
+        '.layer.download-button', '.layer.reset-zoom-button', '.layer.focus-layer', '.layer.edit-layer', 'rect.overlay',
+        'g.panel-focus', 'rect.panel-overlay', `.${INTERACTIVE_CLASS}`
+    ].join(', ')).forEach(node => node.remove());
+    image.node()!.appendChild(chart);
+
+    return new XMLSerializer().serializeToString(image.node()!);
+}
+
+/**
+ * Draws an SVG image onto a canvas at the given pixel ratio and encodes it as PNG
+ */
+function svgToPng(svg: string, width: number, height: number, scale: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(new Blob([svg], { type: MIME_TYPES.svg }));
+        const img = new Image();
+
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(width * scale);
+            canvas.height = Math.round(height * scale);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                reject(new Error('Canvas context creation failed'));
+                return;
+            }
+
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), MIME_TYPES.png);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('SVG image could not be loaded'));
+        };
+
+        img.src = url;
+    });
+}
+
+/**
+ * Exports the chart as an image or its sounding as data
+ *
+ * @param format Export format
+ * @param source Drawn chart
+ * @param options PNG scale; the other options are not used here
+ * @returns File content
+ */
+export async function exportSkewT(
+    format: SkewTExportFormat,
+    source: SkewTExportSource,
+    options: SkewTExportOptions = {}
+): Promise<Blob> {
+    switch (format) {
+        case 'svg':
+            return new Blob([chartToSvgString(source)], { type: MIME_TYPES.svg });
+        case 'png':
+            return svgToPng(
+                chartToSvgString(source),
+                source.width,
+                source.height + TITLE_HEIGHT,
+                options.pngScale ?? DEFAULT_PNG_SCALE
+            );
+        case 'csv':
+            return new Blob([soundingToCsv(source.data, source.units)], { type: MIME_TYPES.csv });
+        case 'json': {
+            const { siteName, sourceName, units = DEFAULT_UNITS } = source;
+            const json = { siteName, sourceName, units, data: exportedSounding(source.data, units) };
+            return new Blob([JSON.stringify(json, null, 2)], { type: MIME_TYPES.json });
+        }
+    }
+}
+
+/**
+ * Exports the chart or its sounding and saves it as a file
+ *
+ * @param format Export format
+ * @param source Drawn chart
+ * @param options PNG scale and file name template
+ */
+export async function downloadSkewT(
+    format: SkewTExportFormat,
+    source: SkewTExportSource,
+    options: SkewTExportOptions = {}
+): Promise<void> {
+    const blob = await exportSkewT(format, source, options);
+    const filename = formatExportFilename(options.filename ?? DEFAULT_EXPORT_FILENAME, source.siteName, source.sourceName);
+    const url = URL.createObjectURL(blob);
+
+    const dlLink = document.createElement('a');
+    dlLink.download = `${filename}.${format}`;
+    dlLink.href = url;
+
+    document.body.appendChild(dlLink);
+    dlLink.click();
+    document.body.removeChild(dlLink);
+    URL.revokeObjectURL(url);
+}
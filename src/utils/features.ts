@@ -0,0 +1,103 @@
+import { SkewTMeasurement, SoundingFeature, SoundingLevel } from '../types';
+import { fillHeights, layersWhere, levelWithHeight } from './interpolation';
+import {
+    DEFAULT_CLOUD_SPREAD,
+    ISOTHERMAL_LAPSE_RATE,
+    MIN_FEATURE_DEPTH,
+    TROPOPAUSE_DEPTH,
+    TROPOPAUSE_LAPSE_RATE,
+    TROPOPAUSE_MAX_PRESSURE
+} from '../constants';
+
+type HeightLevel = { press: number, hght: number, temp: number };
+
+/**
+ * Levels with a temperature and a height, from the surface up. Soundings without any
+ * height get heights relative to the surface, which is enough for lapse rates.
+ */
+function heightLevels(data: SkewTMeasurement[]): HeightLevel[] {
+    return fillHeights(data, 0)
+        .filter((d): d is HeightLevel => typeof d.temp === 'number' && d.temp > -1000 && typeof d.hght === 'number' && d.press > 0)
+        .sort((a, b) => b.press - a.press);
+}
+
+/**
+ * Lapse rate between two levels in K/km, positive when the temperature falls with height
+ */
+function lapseRate(lower: HeightLevel, upper: HeightLevel): number {
+    return (lower.temp - upper.temp) / (upper.hght - lower.hght) * 1000;
+}
+
+/**
+ * Finds the WMO lapse-rate tropopause: the lowest level above 500 hPa at which the
+ * lapse rate falls to 2 K/km or less, provided the average lapse rate from it to every
+ * level within the next 2 km stays at 2 K/km or less
+ *
+ * @param data Array of measurement points, in any order
+ * @returns The tropopause, or undefined if the sounding does not reach it
+ */
+export function tropopause(data: SkewTMeasurement[]): SoundingLevel | undefined {
+    const levels = heightLevels(data);
+
+    const index = levels.findIndex((d, i) => {
+        const next = levels[i + 1];
+        if (d.press > TROPOPAUSE_MAX_PRESSURE || !next || lapseRate(d, next) > TROPOPAUSE_LAPSE_RATE) return false;
+        return levels
+            .slice(i + 1)
+            .filter(u => u.hght - d.hght <= TROPOPAUSE_DEPTH)
+            .every(u => lapseRate(d, u) <= TROPOPAUSE_LAPSE_RATE);
+    });
+
+    return index < 0 ? undefined : levelWithHeight(data, { press: levels[index].press });
+}
+
+/**
+ * Finds cloud layers, inversions, isothermal layers and the tropopause of a sounding.
+ * Inversions and isothermal layers are searched below the tropopause only, and need
+ * a depth of at least 100 m.
+ *
+ * @param data Array of measurement points, in any order
+ * @param cloudSpread Largest temperature–dew point spread in °C counted as cloud
+ * @returns Features ordered by their bottom from the surface up, with heights where the data has heights
+ */
+export function soundingFeatures(data: SkewTMeasurement[], cloudSpread = DEFAULT_CLOUD_SPREAD): SoundingFeature[] {
+    const features: SoundingFeature[] = layersWhere(data, (temp, dwpt) => temp - dwpt <= cloudSpread)
+        .map(layer => ({
+            type: 'cloud',
+            bottom: levelWithHeight(data, { press: layer.bottom }),
+            top: levelWithHeight(data, { press: layer.top })
+        }));
+
+    const trop = tropopause(data);
+    const levels = heightLevels(data).filter(d => !trop || d.press > trop.press);
+
+    // Classify each data layer by its lapse rate and join neighbours of the same kind
+    let layer: { type: 'inversion' | 'isothermal', bottom: HeightLevel, top: HeightLevel } | undefined;
+    const close = () => {
+        if (layer && layer.top.hght - layer.bottom.hght >= MIN_FEATURE_DEPTH) {
+            features.push({
+                type: layer.type,
+                bottom: levelWithHeight(data, { press: layer.bottom.press }),
+                top: levelWithHeight(data, { press: layer.top.press }),
+                temperatureChange: layer.top.temp - layer.bottom.temp
+            });
+        }
+        layer = undefined;
+    };
+    levels.slice(1).forEach((upper, i) => {
+        const lower = levels[i];
+        const lapse = lapseRate(lower, upper);
+        const type = lapse < -ISOTHERMAL_LAPSE_RATE ? 'inversion' : lapse <= ISOTHERMAL_LAPSE_RATE ? 'isothermal' : undefined;
+        if (layer && layer.type === type) {
+            layer.top = upper;
+            return;
+        }
+        close();
+        if (type) layer = { type, bottom: lower, top: upper };
+    });
+    close();
+
+    if (trop) features.push({ type: 'tropopause', bottom: trop, top: trop });
+
+    return features.sort((a, b) => b.bottom.press - a.bottom.press);
+}
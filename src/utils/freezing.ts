@@ -0,0 +1,82 @@
+import { FreezingLevel, IcingLayer, SkewTMeasurement, SoundingLevel } from '../types';
+import { layersWhere, levelWithHeight } from './interpolation';
+import { wetBulbTemperature } from './thermodynamics';
+import { DEFAULT_ICING_SPREAD, ICING_TEMPERATURE_RANGE } from '../constants';
+
+const valid = (v?: number) => typeof v === 'number' && v > -1000;
+
+/**
+ * Finds the pressures where a profile crosses a value, from the surface up
+ *
+ * @param profile Pressures in hPa and the profile values there, in any order
+ * @param value Value to find the crossings of
+ * @returns Crossing pressures, each with the direction of the profile above it
+ */
+function crossings(profile: Array<{ press: number, value: number }>, value: number): FreezingLevel[] {
+    const levels = profile.slice().sort((a, b) => b.press - a.press);
+    const result: FreezingLevel[] = [];
+
+    for (let i = 1; i < levels.length; i++) {
+        const lo = levels[i - 1];
+        const hi = levels[i];
+        if ((lo.value >= value) === (hi.value >= value)) continue;
+
+        // Linear in log-pressure, like fieldAtPressure
+        const f = (value - lo.value) / (hi.value - lo.value);
+        const press = lo.press * Math.pow(hi.press / lo.press, f);
+        result.push({ press, crossing: hi.value < value ? 'cooling' : 'warming' });
+    }
+
+    return result;
+}
+
+/**
+ * Finds all levels where the temperature crosses 0 °C. With a warm nose aloft there
+ * are several, alternately cooling and warming. A sounding below freezing from the
+ * surface up has no freezing level.
+ *
+ * @param data Array of measurement points, in any order
+ * @returns Freezing levels from the surface up, with heights where the data has heights
+ */
+export function freezingLevels(data: SkewTMeasurement[]): FreezingLevel[] {
+    const profile = data
+        .filter(d => valid(d.temp) && d.press > 0)
+        .map(d => ({ press: d.press, value: d.temp! }));
+    return crossings(profile, 0).map(level => levelWithHeight(data, level));
+}
+
+/**
+ * Finds the wet-bulb zero, the lowest level where the wet-bulb temperature falls to
+ * 0 °C. Below it falling snow tends to melt.
+ *
+ * @param data Array of measurement points, in any order
+ * @returns The wet-bulb zero, or undefined if the wet-bulb temperature is below 0 °C at the
+ * surface or never reaches it
+ */
+export function wetBulbZero(data: SkewTMeasurement[]): SoundingLevel | undefined {
+    const profile = data
+        .filter(d => valid(d.temp) && valid(d.dwpt) && d.press > 0)
+        .sort((a, b) => b.press - a.press)
+        .map(d => ({ press: d.press, value: wetBulbTemperature(d.temp!, d.dwpt!, d.press) }));
+    if (!profile.length || profile[0].value < 0) return undefined;
+
+    const level = crossings(profile, 0)[0];
+    return level && levelWithHeight(data, { press: level.press });
+}
+
+/**
+ * Finds layers where supercooled cloud makes icing likely: the temperature lies
+ * between 0 and -20 °C and the temperature–dew point spread is small
+ *
+ * @param data Array of measurement points, in any order
+ * @param maxSpread Largest temperature–dew point spread in °C counted as cloud
+ * @returns Icing layers from the surface up, with heights where the data has heights
+ */
+export function icingLayers(data: SkewTMeasurement[], maxSpread = DEFAULT_ICING_SPREAD): IcingLayer[] {
+    const [tmin, tmax] = ICING_TEMPERATURE_RANGE;
+    return layersWhere(data, (temp, dwpt) => temp >= tmin && temp <= tmax && temp - dwpt <= maxSpread)
+        .map(layer => ({
+            bottom: levelWithHeight(data, { press: layer.bottom }),
+            top: levelWithHeight(data, { press: layer.top })
+        }));
+}
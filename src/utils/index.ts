@@ -1,3 +1,15 @@
 export * from './conversions';
 export * from './windBarbs';
-export * from './drawFunctions';
\ No newline at end of file
+export * from './drawFunctions';
+export * from './thermodynamics';
+export * from './parcel';
+export * from './interpolation';
+export * from './indices';
+export * from './wind';
+export * from './ensemble';
+export * from './render';
+export * from './export';
+export * from './normalize';
+export * from './freezing';
+export * from './features';
+export * from './sidePanel';
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { computeIndices } from './indices';
+import { SkewTMeasurement } from '../types';
+
+// Mandatory levels of a moist, unstable summer sounding; winds in m/s
+const sounding: SkewTMeasurement[] = [
+    { press: 1000, hght: 110, temp: 25, dwpt: 20, wdir: 180, wspd: 10 },
+    { press: 850, hght: 1500, temp: 17, dwpt: 14, wdir: 200, wspd: 15 },
+    { press: 700, hght: 3100, temp: 6, dwpt: 0, wdir: 230, wspd: 20 },
+    { press: 500, hght: 5800, temp: -12, dwpt: -25, wdir: 260, wspd: 25 },
+    { press: 300, hght: 9400, temp: -40, dwpt: -50, wdir: 270, wspd: 35 },
+    { press: 200, hght: 11900, temp: -55, dwpt: -65, wdir: 270, wspd: 40 }
+];
+
+describe('computeIndices', () => {
+    const indices = computeIndices(sounding);
+
+    it('computes the temperature and moisture indices', () => {
+        expect(indices.totalTotals).toBe(17 + 14 - 2 * -12);
+        expect(indices.kIndex).toBe((17 - -12) + 14 - (6 - 0));
+    });
+
+    it('computes the SWEAT index with the shear term', () => {
+        const kt = 1 / 0.514444;
+        const shear = 125 * (Math.sin(60 * Math.PI / 180) + 0.2);
+        expect(indices.sweatIndex).toBeCloseTo(12 * 14 + 20 * (55 - 49) + 2 * 15 * kt + 25 * kt + shear, 2);
+        expect(indices.sweatIndex).toBeCloseTo(528.16, 2);
+    });
+
+    it('drops the SWEAT shear term when the wind backs with height', () => {
+        const backing = sounding.map(d => d.press === 500 ? { ...d, wdir: 190 } : d);
+        expect(computeIndices(backing).sweatIndex).toBeCloseTo(528.16 - 125 * (Math.sin(Math.PI / 3) + 0.2), 2);
+    });
+
+    it('computes the lifted and Showalter indices', () => {
+        expect(indices.liftedIndex).toBeCloseTo(-6.01, 2);
+        expect(indices.showalterIndex).toBeCloseTo(-5.09, 2);
+    });
+
+    it('computes CAPE, CIN and the parcel levels', () => {
+        expect(indices.cape).toBeCloseTo(1673.7, 1);
+        expect(indices.cin).toBeCloseTo(93.4, 1);
+        expect(indices.lcl?.press).toBeCloseTo(929.2, 1);
+        expect(indices.lcl?.hght).toBeCloseTo(738, 0);
+        expect(indices.lfc?.press).toBeCloseTo(788.1, 1);
+        expect(indices.el?.press).toBeCloseTo(224.3, 1);
+    });
+
+    it('computes the precipitable water', () => {
+        expect(indices.precipitableWater).toBeCloseTo(41.66, 2);
+    });
+
+    it('leaves out the indices the data cannot give', () => {
+        const shallow = computeIndices(sounding.slice(0, 3));
+        expect(shallow.totalTotals).toBeUndefined();
+        expect(shallow.kIndex).toBeUndefined();
+        expect(shallow.sweatIndex).toBeUndefined();
+        expect(shallow.liftedIndex).toBeUndefined();
+        expect(shallow.precipitableWater).toBeCloseTo(33.79, 2);
+
+        const dry = computeIndices(sounding.map(d => ({ ...d, dwpt: undefined })));
+        expect(dry.precipitableWater).toBeUndefined();
+        expect(dry.cape).toBeUndefined();
+    });
+});
@@ -0,0 +1,107 @@
+import { SkewTMeasurement, StabilityIndices } from '../types';
+import { convertWindSpeed } from './conversions';
+import { fieldAtPressure } from './interpolation';
+import { liftParcel } from './parcel';
+import {
+    dryAdiabaticTemperature,
+    liftingCondensationLevel,
+    moistAdiabaticTemperature,
+    saturationMixingRatio
+} from './thermodynamics';
+import { GRAVITY } from '../constants';
+
+/**
+ * Temperature of a parcel lifted from one pressure level to another
+ */
+function liftedTemperature(temp: number, dwpt: number, fromPress: number, toPress: number): number {
+    const lcl = liftingCondensationLevel(temp, dwpt, fromPress);
+    if (lcl.press <= toPress) return dryAdiabaticTemperature(temp, fromPress, toPress);
+    return moistAdiabaticTemperature(lcl.temp, lcl.press, toPress);
+}
+
+/**
+ * SWEAT Index (Miller, 1972)
+ */
+function sweat(data: SkewTMeasurement[], totalTotals: number, td850: number): number | undefined {
+    const dd850 = fieldAtPressure(data, 'wdir', 850);
+    const dd500 = fieldAtPressure(data, 'wdir', 500);
+    const ff850 = fieldAtPressure(data, 'wspd', 850);
+    const ff500 = fieldAtPressure(data, 'wspd', 500);
+    if (dd850 === undefined || dd500 === undefined || ff850 === undefined || ff500 === undefined) return undefined;
+
+    const f850 = convertWindSpeed(ff850, 'kt');
+    const f500 = convertWindSpeed(ff500, 'kt');
+    let shear = 0;
+    if (dd850 >= 130 && dd850 <= 250 && dd500 >= 210 && dd500 <= 310 &&
+        dd500 - dd850 > 0 && f850 >= 15 && f500 >= 15) {
+        shear = 125 * (Math.sin((dd500 - dd850) * Math.PI / 180) + 0.2);
+    }
+
+    return 12 * Math.max(0, td850) + 20 * Math.max(0, totalTotals - 49) + 2 * f850 + f500 + shear;
+}
+
+/**
+ * Integrates the water vapour content of the column
+ */
+function precipitableWater(data: SkewTMeasurement[]): number | undefined {
+    const levels = data
+        .filter(d => typeof d.dwpt === 'number' && d.dwpt > -1000 && d.press > 0)
+        .sort((a, b) => b.press - a.press);
+    if (levels.length < 2) return undefined;
+
+    let pw = 0;
+    for (let i = 0; i < levels.length - 1; i++) {
+        const r0 = saturationMixingRatio(levels[i].dwpt!, levels[i].press);
+        const r1 = saturationMixingRatio(levels[i + 1].dwpt!, levels[i + 1].press);
+        pw += ((r0 + r1) / 2) * (levels[i].press - levels[i + 1].press) * 100;
+    }
+
+    return pw / GRAVITY; // kg/m², i.e. mm of liquid water
+}
+
+/**
+ * Computes the standard stability indices of a sounding
+ *
+ * @param data Array of measurement points, in any order
+ * @returns The computed indices; values that cannot be derived from the data are undefined
+ */
+export function computeIndices(data: SkewTMeasurement[]): StabilityIndices {
+    const indices: StabilityIndices = {};
+    const at = (field: keyof SkewTMeasurement, press: number) => fieldAtPressure(data, field, press);
+    const withHeight = (press: number) => ({ press, hght: at('hght', press) });
+
+    const t850 = at('temp', 850);
+    const td850 = at('dwpt', 850);
+    const t700 = at('temp', 700);
+    const td700 = at('dwpt', 700);
+    const t500 = at('temp', 500);
+
+    if (t850 !== undefined && td850 !== undefined && t500 !== undefined) {
+        indices.totalTotals = t850 + td850 - 2 * t500;
+        indices.showalterIndex = t500 - liftedTemperature(t850, td850, 850, 500);
+        indices.sweatIndex = sweat(data, indices.totalTotals, td850);
+
+        if (t700 !== undefined && td700 !== undefined) {
+            indices.kIndex = (t850 - t500) + td850 - (t700 - td700);
+        }
+    }
+
+    const parcel = liftParcel(data);
+    if (parcel) {
+        const surface = parcel.levels[0];
+        const sfcDwpt = at('dwpt', surface.press);
+        if (t500 !== undefined && sfcDwpt !== undefined && surface.press > 500) {
+            indices.liftedIndex = t500 - liftedTemperature(surface.envTemp, sfcDwpt, surface.press, 500);
+        }
+
+        indices.cape = parcel.cape;
+        indices.cin = parcel.cin;
+        indices.lcl = withHeight(parcel.lcl.press);
+        if (parcel.lfc !== undefined) indices.lfc = withHeight(parcel.lfc);
+        if (parcel.el !== undefined) indices.el = withHeight(parcel.el);
+    }
+
+    indices.precipitableWater = precipitableWater(data);
+
+    return indices;
+}
@@ -0,0 +1,295 @@
+import { SkewTMeasurement, SoundingLevel } from '../types';
+import {
+    hypsometricThickness,
+    standardAtmosphereHeight,
+    standardAtmospherePressure,
+    virtualTemperature
+} from './thermodynamics';
+
+const FIELDS = ['hght', 'temp', 'dwpt', 'wdir', 'wspd'] as const;
+
+// Sub-steps per data layer when searching for layers, see layersWhere
+const LAYER_STEPS = 10;
+
+/**
+ * Linearly interpolates a value in log-pressure space
+ *
+ * @param press Pressure to interpolate to in hPa
+ * @param p0 Pressure of the first known level in hPa
+ * @param v0 Value at the first known level
+ * @param p1 Pressure of the second known level in hPa
+ * @param v1 Value at the second known level
+ * @returns Interpolated value at press
+ */
+export function interpolateLogP(press: number, p0: number, v0: number, p1: number, v1: number): number {
+    if (p0 === p1) return v0;
+    const f = Math.log(press / p0) / Math.log(p1 / p0);
+    return v0 + f * (v1 - v0);
+}
+
+/**
+ * Interpolates a measurement field to a pressure level in log-pressure space.
+ * Wind direction is interpolated along the shortest arc.
+ *
+ * @param data Array of measurement points, in any order
+ * @param field Measurement field to interpolate
+ * @param press Pressure to interpolate to in hPa
+ * @returns Interpolated value, or undefined if press lies outside the levels where the field is available
+ */
+export function fieldAtPressure(data: SkewTMeasurement[], field: keyof SkewTMeasurement, press: number): number | undefined {
+    const levels = data
+        .filter(d => typeof d[field] === 'number' && d[field]! > -1000 && d.press > 0)
+        .sort((a, b) => b.press - a.press);
+
+    for (let i = 0; i < levels.length; i++) {
+        const lo = levels[i];
+        if (lo.press === press) return lo[field];
+        if (i === levels.length - 1) break;
+
+        const hi = levels[i + 1];
+        if (lo.press > press && hi.press < press) {
+            let v1 = hi[field]!;
+            if (field === 'wdir') {
+                if (v1 - lo.wdir! > 180) v1 -= 360;
+                if (lo.wdir! - v1 > 180) v1 += 360;
+                return (interpolateLogP(press, lo.press, lo.wdir!, hi.press, v1) + 360) % 360;
+            }
+            return interpolateLogP(press, lo.press, lo[field]!, hi.press, v1);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Adds the interpolated height to a level, when the sounding has heights around it
+ *
+ * @param data Array of measurement points, in any order
+ * @param level Level to add the height to
+ * @returns Copy of the level with its height, or the level itself
+ */
+export function levelWithHeight<T extends SoundingLevel>(data: SkewTMeasurement[], level: T): T {
+    const hght = fieldAtPressure(data, 'hght', level.press);
+    return hght === undefined ? level : { ...level, hght };
+}
+
+/**
+ * Levels with a height, from the surface up
+ */
+function heightLevels(data: SkewTMeasurement[]): SkewTMeasurement[] {
+    return data
+        .filter(d => typeof d.hght === 'number' && d.press > 0)
+        .sort((a, b) => b.press - a.press);
+}
+
+/**
+ * Interpolates the height at a pressure. With standardFallback, pressures beyond the
+ * levels with a height get the standard atmosphere thickness to the nearest of them,
+ * and a sounding without heights the standard atmosphere heights.
+ *
+ * @param data Array of measurement points, in any order
+ * @param press Pressure to interpolate to in hPa
+ * @param standardFallback Whether to fall back to the ICAO standard atmosphere
+ * @returns Height in meters, in the same reference as the data heights, or undefined if
+ * press lies outside the levels with a height and there is no fallback
+ */
+export function heightAtPressure(data: SkewTMeasurement[], press: number, standardFallback = false): number | undefined {
+    const levels = heightLevels(data);
+    if (!standardFallback) return fieldAtPressure(levels, 'hght', press);
+    if (!levels.length) return standardAtmosphereHeight(press);
+
+    const edge = press > levels[0].press ? levels[0] : press < levels[levels.length - 1].press ? levels[levels.length - 1] : undefined;
+    if (edge) return edge.hght! + standardAtmosphereHeight(press) - standardAtmosphereHeight(edge.press);
+    return fieldAtPressure(levels, 'hght', press);
+}
+
+/**
+ * Interpolates the pressure at a height. Pressure falls exponentially with height
+ * between two levels, so the interpolation is linear in log-pressure. The standard
+ * atmosphere fallback works as in heightAtPressure.
+ *
+ * @param data Array of measurement points, in any order
+ * @param hght Height to interpolate to in meters, in the same reference as the data heights
+ * @param standardFallback Whether to fall back to the ICAO standard atmosphere
+ * @returns Pressure in hPa, or undefined if hght lies outside the levels with a height and
+ * there is no fallback
+ */
+export function pressureAtHeight(data: SkewTMeasurement[], hght: number, standardFallback = false): number | undefined {
+    const levels = heightLevels(data);
+    if (standardFallback) {
+        if (!levels.length) return standardAtmospherePressure(hght);
+        const bottom = levels[0];
+        const top = levels[levels.length - 1];
+        const edge = hght < bottom.hght! ? bottom : hght > top.hght! ? top : undefined;
+        if (edge) return standardAtmospherePressure(standardAtmosphereHeight(edge.press) + hght - edge.hght!);
+    }
+
+    for (let i = 0; i < levels.length; i++) {
+        const lo = levels[i];
+        if (lo.hght === hght) return lo.press;
+        if (i === levels.length - 1) break;
+
+        const hi = levels[i + 1];
+        if (lo.hght! < hght && hi.hght! > hght) {
+            const f = (hght - lo.hght!) / (hi.hght! - lo.hght!);
+            return Math.exp(Math.log(lo.press) + f * Math.log(hi.press / lo.press));
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Interpolates a measurement field to a height, see pressureAtHeight and fieldAtPressure
+ *
+ * @param data Array of measurement points, in any order
+ * @param field Measurement field to interpolate
+ * @param hght Height to interpolate to in meters
+ * @returns Interpolated value, or undefined if the height or the field is not available there
+ */
+export function fieldAtHeight(data: SkewTMeasurement[], field: keyof SkewTMeasurement, hght: number): number | undefined {
+    const press = pressureAtHeight(data, hght);
+    if (press === undefined) return undefined;
+    if (field === 'press') return press;
+    if (field === 'hght') return hght;
+    return fieldAtPressure(data, field, press);
+}
+
+/**
+ * Interpolates all measurement fields to a pressure level
+ *
+ * @param data Array of measurement points, in any order
+ * @param press Pressure to interpolate to in hPa
+ * @returns Measurement at press, with the fields that are available there
+ */
+export function interpolateToPressure(data: SkewTMeasurement[], press: number): SkewTMeasurement {
+    const level: SkewTMeasurement = { press };
+    FIELDS.forEach(field => {
+        const value = fieldAtPressure(data, field, press);
+        if (value !== undefined) level[field] = value;
+    });
+    return level;
+}
+
+/**
+ * Interpolates all measurement fields to a height
+ *
+ * @param data Array of measurement points, in any order
+ * @param hght Height to interpolate to in meters
+ * @returns Measurement at hght, or undefined if hght lies outside the levels with a height
+ */
+export function interpolateToHeight(data: SkewTMeasurement[], hght: number): SkewTMeasurement | undefined {
+    const press = pressureAtHeight(data, hght);
+    return press === undefined ? undefined : { ...interpolateToPressure(data, press), hght };
+}
+
+/**
+ * Fills in missing heights with the hypsometric equation, integrating up and down from
+ * the known heights. Temperatures and dew points missing at a level are interpolated;
+ * without a dew point the temperature stands in for the virtual temperature.
+ *
+ * @param data Array of measurement points, in any order
+ * @param surfaceHeight Height of the lowest level in meters, used when no level has a height,
+ * e.g. the station elevation
+ * @returns Copies of the points in the same order; heights stay missing where no anchor
+ * height or temperature is available
+ */
+export function fillHeights(data: SkewTMeasurement[], surfaceHeight?: number): SkewTMeasurement[] {
+    const copies = data.map(d => ({ ...d }));
+    const levels = copies.filter(d => d.press > 0).sort((a, b) => b.press - a.press);
+
+    let anchor = levels.findIndex(d => typeof d.hght === 'number');
+    if (anchor < 0 && surfaceHeight !== undefined && levels.length) {
+        levels[0].hght = surfaceHeight;
+        anchor = 0;
+    }
+    if (anchor < 0) return copies;
+
+    const tv = (d: SkewTMeasurement) => {
+        const temp = typeof d.temp === 'number' && d.temp > -1000 ? d.temp : fieldAtPressure(data, 'temp', d.press);
+        const dwpt = typeof d.dwpt === 'number' && d.dwpt > -1000 ? d.dwpt : fieldAtPressure(data, 'dwpt', d.press);
+        if (temp === undefined) return undefined;
+        return dwpt === undefined ? temp : virtualTemperature(temp, dwpt, d.press);
+    };
+    const fill = (d: SkewTMeasurement, from: SkewTMeasurement) => {
+        const tvFrom = tv(from);
+        const tvTo = tv(d);
+        if (tvFrom === undefined || tvTo === undefined) return false;
+        d.hght = from.hght! + hypsometricThickness(from.press, d.press, tvFrom, tvTo);
+        return true;
+    };
+
+    // Upwards from the lowest known height, restarting at every known height
+    let from = levels[anchor];
+    for (let i = anchor + 1; i < levels.length; i++) {
+        if (typeof levels[i].hght === 'number' || fill(levels[i], from)) from = levels[i];
+    }
+
+    // Downwards from it to the surface
+    from = levels[anchor];
+    for (let i = anchor - 1; i >= 0; i--) {
+        if (fill(levels[i], from)) from = levels[i];
+    }
+
+    return copies;
+}
+
+/**
+ * Converts heights above sea level to heights above ground level. The ground is the
+ * height of the lowest level with a height, so missing heights should be filled first,
+ * see fillHeights.
+ *
+ * @param data Array of measurement points, in any order
+ * @returns Copies of the points in the same order, with heights above ground level
+ */
+export function heightsAboveGround(data: SkewTMeasurement[]): SkewTMeasurement[] {
+    const surface = data
+        .filter(d => typeof d.hght === 'number')
+        .reduce<SkewTMeasurement | undefined>((lowest, d) => !lowest || d.press > lowest.press ? d : lowest, undefined);
+    return data.map(d => typeof d.hght === 'number' ? { ...d, hght: d.hght - surface!.hght! } : { ...d });
+}
+
+/**
+ * Finds the layers where a condition on temperature and dew point holds. Each data
+ * layer is sampled in log-pressure steps, so layer boundaries fall between the levels.
+ *
+ * @param data Array of measurement points, in any order
+ * @param condition Test of a sample with temperature and dew point in °C
+ * @returns Bottom and top pressures (hPa) of the layers, from the surface up; layers thinner
+ * than one sample step are left out
+ */
+export function layersWhere(
+    data: SkewTMeasurement[],
+    condition: (temp: number, dwpt: number, press: number) => boolean
+): Array<{ bottom: number, top: number }> {
+    const levels = data
+        .filter(d => typeof d.temp === 'number' && d.temp > -1000 && typeof d.dwpt === 'number' && d.dwpt > -1000 && d.press > 0)
+        .sort((a, b) => b.press - a.press);
+
+    // The first sample of a data layer is its bottom
+    const samples: Array<{ press: number, inside: boolean }> = [];
+    levels.forEach((d, i) => {
+        const next = levels[i + 1];
+        const steps = next ? LAYER_STEPS : 1;
+        for (let s = 0; s < steps; s++) {
+            const press = next ? d.press * Math.pow(next.press / d.press, s / steps) : d.press;
+            const temp = next ? interpolateLogP(press, d.press, d.temp!, next.press, next.temp!) : d.temp!;
+            const dwpt = next ? interpolateLogP(press, d.press, d.dwpt!, next.press, next.dwpt!) : d.dwpt!;
+            samples.push({ press, inside: condition(temp, dwpt, press) });
+        }
+    });
+
+    // Join consecutive samples inside into layers
+    const layers: Array<{ bottom: number, top: number }> = [];
+    let bottom: number | undefined;
+    samples.forEach((sample, i) => {
+        if (!sample.inside) return;
+        if (bottom === undefined) bottom = sample.press;
+        if (i === samples.length - 1 || !samples[i + 1].inside) {
+            if (sample.press < bottom) layers.push({ bottom, top: sample.press });
+            bottom = undefined;
+        }
+    });
+
+    return layers;
+}
@@ -0,0 +1,140 @@
+import { NormalizedSounding, SkewTMeasurement, SkewTProfile, SoundingWarning } from '../types';
+import { MEASUREMENT_LIMITS, MISSING_VALUE_SENTINELS } from '../constants';
+
+const FIELDS = ['hght', 'temp', 'dwpt', 'wdir', 'wspd'] as const;
+
+/**
+ * Checks a single value against the limits of its field
+ *
+ * @returns The value if it is usable, undefined if it is missing, or an error message
+ */
+function checkValue(field: keyof SkewTMeasurement, value: unknown): number | undefined | { error: string } {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value)) return { error: 'is not a number' };
+
+    const [min, max] = MEASUREMENT_LIMITS[field];
+    if (value >= min && value <= max && !(field === 'press' && value <= 0)) return value;
+    if (MISSING_VALUE_SENTINELS.includes(value)) return undefined;
+    return { error: `is outside ${min}…${max}` };
+}
+
+/**
+ * Cleans a sounding for drawing and analysis: sentinel values such as -9999 become
+ * missing, impossible values are removed, levels are sorted from the surface up and
+ * repeated pressure levels are merged. Every correction except the sentinel
+ * conversion is reported as a warning.
+ *
+ * @param data Measurement points in any order
+ * @returns The cleaned points and the problems found
+ */
+export function normalizeSounding(data: SkewTMeasurement[]): NormalizedSounding {
+    const warnings: SoundingWarning[] = [];
+    const levels: Array<SkewTMeasurement & { index: number }> = [];
+
+    data.forEach((d, index) => {
+        const press = checkValue('press', d.press);
+        if (typeof press !== 'number') {
+            warnings.push({
+                code: 'invalid-pressure',
+                message: `Level ${index} ${press ? `pressure ${press.error}` : 'has no pressure'}, level dropped`,
+                index,
+                field: 'press',
+                value: d.press
+            });
+            return;
+        }
+
+        const level: SkewTMeasurement & { index: number } = { press, index };
+        FIELDS.forEach(field => {
+            const value = checkValue(field, d[field]);
+            if (typeof value === 'number') {
+                level[field] = value;
+            } else if (value) {
+                warnings.push({
+                    code: 'out-of-range',
+                    message: `${field} ${value.error} at ${press} hPa, value removed`,
+                    index,
+                    press,
+                    field,
+                    value: d[field]
+                });
+            }
+        });
+
+        levels.push(level);
+    });
+
+    if (levels.some((d, i) => i > 0 && d.press > levels[i - 1].press) &&
+        levels.some((d, i) => i > 0 && d.press < levels[i - 1].press)) {
+        warnings.push({ code: 'unsorted', message: 'Levels are not ordered by pressure, sorted from the surface up' });
+    }
+
+    // Stable sort, so the first of several equal levels in the input comes first
+    levels.sort((a, b) => b.press - a.press);
+
+    const merged: typeof levels = [];
+    levels.forEach(level => {
+        const previous = merged[merged.length - 1];
+        if (previous && previous.press === level.press) {
+            warnings.push({
+                code: 'duplicate-level',
+                message: `Level ${level.index} repeats ${level.press} hPa, merged into the first one`,
+                index: level.index,
+                press: level.press
+            });
+            FIELDS.forEach(field => {
+                if (previous[field] === undefined && level[field] !== undefined) previous[field] = level[field];
+            });
+            return;
+        }
+        merged.push(level);
+    });
+
+    // Dew points above the temperature are capped; heights must increase upwards
+    let lastHeight = -Infinity;
+    const result = merged.map(({ index, ...level }) => {
+        const { press, temp, dwpt, hght } = level;
+        if (temp !== undefined && dwpt !== undefined && dwpt > temp) {
+            warnings.push({
+                code: 'dewpoint-above-temperature',
+                message: `Dew point ${dwpt} above temperature ${temp} at ${press} hPa, set to the temperature`,
+                index,
+                press,
+                field: 'dwpt',
+                value: dwpt
+            });
+            level.dwpt = temp;
+        }
+
+        if (hght !== undefined && hght <= lastHeight) {
+            warnings.push({
+                code: 'height-not-increasing',
+                message: `Height ${hght} m at ${press} hPa is not above ${lastHeight} m below it, value removed`,
+                index,
+                press,
+                field: 'hght',
+                value: hght
+            });
+            delete level.hght;
+        } else if (hght !== undefined) {
+            lastHeight = hght;
+        }
+        return level;
+    });
+
+    return { data: result, warnings };
+}
+
+/**
+ * Collects the warnings of a sounding and of the profiles drawn with it, see normalizeSounding
+ *
+ * @param data Main sounding
+ * @param profiles Further profiles; their warnings name the profile
+ * @returns The problems found, empty for clean input
+ */
+export function soundingWarnings(data: SkewTMeasurement[], profiles: SkewTProfile[] = []): SoundingWarning[] {
+    return [
+        ...normalizeSounding(data).warnings,
+        ...profiles.flatMap(p => normalizeSounding(p.data).warnings.map(warning => ({ ...warning, profile: p.name })))
+    ];
+}
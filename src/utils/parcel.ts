@@ -0,0 +1,156 @@
+import { ParcelArea, ParcelLevel, ParcelTrace, SkewTMeasurement } from '../types';
+import { RD } from '../constants';
+import {
+    dryAdiabaticTemperature,
+    liftingCondensationLevel,
+    moistAdiabaticTemperature
+} from './thermodynamics';
+import { interpolateLogP } from './interpolation';
+
+/**
+ * Splits the region between parcel and environment into signed areas
+ */
+function splitAreas(levels: ParcelLevel[]): Array<{ positive: boolean, levels: ParcelLevel[], energy: number }> {
+    const areas: Array<{ positive: boolean, levels: ParcelLevel[], energy: number }> = [];
+    let current: { positive: boolean, levels: ParcelLevel[], energy: number } | null = null;
+
+    for (let i = 0; i < levels.length - 1; i++) {
+        const a = levels[i];
+        const b = levels[i + 1];
+        const da = a.temp - a.envTemp;
+        const db = b.temp - b.envTemp;
+        const segments: Array<[ParcelLevel, ParcelLevel]> = [];
+
+        if (da * db < 0) {
+            // Parcel crosses the environment between a and b
+            const f = da / (da - db);
+            const press = Math.exp(Math.log(a.press) + f * Math.log(b.press / a.press));
+            const temp = a.envTemp + f * (b.envTemp - a.envTemp);
+            const crossing = { press, temp, envTemp: temp };
+            segments.push([a, crossing], [crossing, b]);
+        } else {
+            segments.push([a, b]);
+        }
+
+        for (const [lo, hi] of segments) {
+            const mean = ((lo.temp - lo.envTemp) + (hi.temp - hi.envTemp)) / 2;
+            if (mean === 0) {
+                current = null;
+                continue;
+            }
+
+            const positive = mean > 0;
+            if (!current || current.positive !== positive) {
+                current = { positive, levels: [lo], energy: 0 };
+                areas.push(current);
+            }
+            current.levels.push(hi);
+            current.energy += RD * Math.abs(mean) * Math.log(lo.press / hi.press);
+        }
+    }
+
+    return areas;
+}
+
+/**
+ * Lifts a parcel from the lowest measurement of a sounding, dry adiabatically up to
+ * the LCL and moist adiabatically above it
+ *
+ * @param data Array of measurement points
+ * @returns The parcel trace with its CAPE/CIN areas, or null if the sounding has too few valid levels
+ */
+export function liftParcel(data: SkewTMeasurement[]): ParcelTrace | null {
+    const env = data
+        .filter(d => typeof d.temp === 'number' && d.temp > -1000 && d.press > 0)
+        .sort((a, b) => b.press - a.press);
+    const surface = surfaceLevel(env);
+    if (!surface) return null;
+
+    const column = env.filter(d => d.press <= surface.press);
+    if (column.length < 2) return null;
+
+    const lcl = liftingCondensationLevel(surface.temp!, surface.dwpt!, surface.press);
+    const levels: ParcelLevel[] = [];
+    let moistBase: { press: number, temp: number } | null = null;
+
+    for (let i = 0; i < column.length; i++) {
+        const d = column[i];
+
+        // Insert the LCL between the two environmental levels that bracket it
+        if (!moistBase && d.press < lcl.press && i > 0) {
+            const prev = column[i - 1];
+            levels.push({
+                press: lcl.press,
+                temp: lcl.temp,
+                envTemp: interpolateLogP(lcl.press, prev.press, prev.temp!, d.press, d.temp!)
+            });
+            moistBase = lcl;
+        }
+
+        let temp: number;
+        if (d.press >= lcl.press || i === 0) {
+            temp = dryAdiabaticTemperature(surface.temp!, surface.press, d.press);
+        } else {
+            temp = moistAdiabaticTemperature(moistBase!.temp, moistBase!.press, d.press);
+            moistBase = { press: d.press, temp };
+        }
+
+        levels.push({ press: d.press, temp, envTemp: d.temp! });
+    }
+
+    const signed = splitAreas(levels);
+    const lfcIndex = signed.findIndex(a => a.positive && a.levels[a.levels.length - 1].press < lcl.press);
+    const areas: ParcelArea[] = [];
+    let lfc: number | undefined;
+    let el: number | undefined;
+    let cape = 0;
+    let cin = 0;
+
+    if (lfcIndex >= 0) {
+        lfc = Math.min(signed[lfcIndex].levels[0].press, lcl.press);
+
+        signed.forEach((area, i) => {
+            if (area.positive && i >= lfcIndex) {
+                cape += area.energy;
+                el = area.levels[area.levels.length - 1].press;
+                areas.push({ type: 'cape', levels: area.levels, energy: area.energy });
+            } else if (!area.positive && i < lfcIndex) {
+                cin += area.energy;
+                areas.push({ type: 'cin', levels: area.levels, energy: area.energy });
+            }
+        });
+    }
+
+    return { levels, lcl, lfc, el, cape, cin, areas };
+}
+
+/**
+ * Finds the lowest level with a valid temperature and dew point, from which
+ * liftParcel lifts its parcel
+ *
+ * @param data Array of measurement points
+ * @returns The surface level, or undefined if no level has both values
+ */
+export function surfaceLevel(data: SkewTMeasurement[]): SkewTMeasurement | undefined {
+    const valid = (v?: number) => typeof v === 'number' && v > -1000;
+    return data
+        .filter(d => valid(d.temp) && valid(d.dwpt) && d.press > 0)
+        .reduce<SkewTMeasurement | undefined>((lowest, d) => !lowest || d.press > lowest.press ? d : lowest, undefined);
+}
+
+/**
+ * Replaces the temperature and/or dew point of the surface level, e.g. to model
+ * daytime heating or moisture advection. The dew point is capped at the temperature.
+ *
+ * @param data Array of measurement points
+ * @param changes New surface values in °C
+ * @returns A copy of the data with the modified surface level, or the data itself if it has no surface level
+ */
+export function modifySurface(data: SkewTMeasurement[], changes: { temp?: number, dwpt?: number }): SkewTMeasurement[] {
+    const surface = surfaceLevel(data);
+    if (!surface) return data;
+
+    const temp = changes.temp ?? surface.temp!;
+    const dwpt = Math.min(changes.dwpt ?? surface.dwpt!, temp);
+    return data.map(d => d === surface ? { ...d, temp, dwpt } : d);
+}
@@ -0,0 +1,489 @@
+import * as d3 from 'd3';
+import { DerivedTrace, SkewTLegendEntry, SkewTMeasurement, SkewTRenderOptions, SkewTUnits } from '../types';
+import {
+    addDownloadButton,
+    addResetZoomButton,
+    drawBackground,
+    drawEnsembleSpread,
+    drawFeatureBrackets,
+    drawFreezingLevels,
+    drawHeightScales,
+    drawHodograph,
+    drawImageFrame,
+    drawIndicesPanel,
+    drawLegend,
+    legendLayout,
+    drawParcel,
+    drawSidePanel,
+    drawProfiles,
+    drawSurfaceHandles,
+    drawTempDewLines,
+    getSmallestPressureValue,
+    joinLayers,
+    setupTooltips,
+    skewTTitle
+} from './drawFunctions';
+import { barbSpeed, drawWindBarbs, makeWindbarbs } from './windBarbs';
+import { computeIndices } from './indices';
+import { soundingFeatures } from './features';
+import { freezingLevels, icingLayers, wetBulbZero } from './freezing';
+import { fillHeights, heightsAboveGround, interpolateToHeight } from './interpolation';
+import { normalizeSounding, soundingWarnings } from './normalize';
+import { liftParcel, modifySurface, surfaceLevel } from './parcel';
+import { ensembleStatistics } from './ensemble';
+import { derivedTemperatures } from './thermodynamics';
+import { sidePanelProfile } from './sidePanel';
+import { chartExportSource, chartToSvgString, downloadSkewT } from './export';
+import { createHeadlessSvg, serializeHeadlessSvg } from './svgDocument';
+import {
+    DEFAULT_WIDTH,
+    DEFAULT_HEIGHT,
+    DEFAULT_MARGIN,
+    DEFAULT_BASE_PRESSURE,
+    STANDARD_PRESSURE_LINES,
+    STANDARD_PRESSURE_TICKS,
+    DEFAULT_TEMP_RANGE,
+    SKEW_ANGLE,
+    DEFAULT_BARB_SIZE,
+    DEFAULT_BARB_SPACING,
+    DEFAULT_WIND_SPEED_UNIT,
+    DEFAULT_TEMPERATURE_UNIT,
+    DEFAULT_HEIGHT_UNIT,
+    DEFAULT_PRESSURE_UNIT,
+    DEFAULT_HODOGRAPH_INSET_SIZE,
+    DEFAULT_EXPORT_FORMATS,
+    DEFAULT_SIDE_PANEL_WIDTH,
+    DERIVED_TRACE_NAMES,
+    HEIGHT_AXIS_WIDTH,
+    SIDE_PANEL_GAP,
+    LEGEND_ROW_HEIGHT,
+    MIN_AUTO_TOP_PRESSURE,
+    MAX_ZOOM,
+    LIGHT_THEME,
+    TITLE_HEIGHT
+} from '../constants';
+
+/**
+ * Top-level groups of the chart, bottom to top
+ */
+const LAYERS = [
+    'canvas', 'container', 'skewtbg', 'skewt', 'windbarb', 'side-panel', 'legend', 'indices', 'hodograph', 'download-button', 'reset-zoom-button'
+] as const;
+
+/**
+ * Groups inside the "skewt" layer, bottom to top
+ */
+const PLOT_LAYERS = [
+    'parcel-layer', 'spread-layer', 'profile-layer', 'mean-layer', 'freezing-layer', 'sounding-layer', 'feature-layer',
+    'height-layer', 'focus-layer', 'edit-layer'
+] as const;
+
+/**
+ * Draws a SkewT chart into an svg element. Every call updates what an earlier call
+ * drew there: elements are bound to their data with keyed joins, so a change updates,
+ * adds or removes exactly the affected elements.
+ *
+ * @param svg Svg element of the chart
+ * @param data Sounding to draw
+ * @param options Chart options, the SkewT props without the data
+ * @param interactive Whether to add tooltips, the download button and, if enabled, zoom and pan and the
+ * surface handles
+ * @returns Function that detaches the event handlers of this call
+ */
+export function renderSkewT(
+    svg: SVGSVGElement,
+    data: SkewTMeasurement[],
+    options: SkewTRenderOptions,
+    interactive = false
+): () => void {
+    const {
+        profiles,
+        ensemble,
+        width = DEFAULT_WIDTH,
+        height = DEFAULT_HEIGHT,
+        speedUnit = DEFAULT_WIND_SPEED_UNIT,
+        temperatureUnit = DEFAULT_TEMPERATURE_UNIT,
+        heightUnit = DEFAULT_HEIGHT_UNIT,
+        pressureUnit = DEFAULT_PRESSURE_UNIT,
+        basePressure = DEFAULT_BASE_PRESSURE,
+        topPressure,
+        temperatureRange = DEFAULT_TEMP_RANGE,
+        skewAngle = SKEW_ANGLE,
+        pressureLines = STANDARD_PRESSURE_LINES,
+        pressureTicks = STANDARD_PRESSURE_TICKS,
+        showParcel = true,
+        showMoistAdiabats = true,
+        showMixingRatioLines = true,
+        showIndices = false,
+        showHodograph = false,
+        showFreezingLevels = false,
+        showWetBulbZero = false,
+        showIcingLayers = false,
+        showFeatures = false,
+        showWetBulb = false,
+        showVirtualTemperature = false,
+        heightAxis,
+        showFlightLevels = false,
+        sidePanel,
+        editableSurface = false,
+        onDataChange,
+        hemisphere = 'north',
+        barbSpacing = DEFAULT_BARB_SPACING,
+        barbHeights,
+        zoomable = false,
+        theme = LIGHT_THEME,
+        className,
+        exportOptions,
+        onDownload,
+        idPrefix = 'skewt'
+    } = options;
+
+    // Sorted from the surface up, without sentinels or impossible values; the steps below rely on it
+    const sounding = normalizeSounding(data).data;
+    const units: SkewTUnits = { temperature: temperatureUnit, height: heightUnit, pressure: pressureUnit, windSpeed: speedUnit };
+    const clipId = `${idPrefix}-clipper`;
+    const barbPrefix = `${idPrefix}-barb`;
+
+    const wrapper = d3.select(svg)
+        .attr('id', `${idPrefix}-wrapper`)
+        .attr('width', `${width}px`)
+        .attr('height', `${height}px`)
+        .attr('class', className || 'skewt-chart')
+        .style('font-family', () => theme.font.family || null);
+
+    const overlays = (profiles || []).map((p, i) => ({
+        ...p,
+        data: normalizeSounding(p.data).data,
+        color: p.color || (p.member ? theme.lines.member.color : theme.profileColors[i % theme.profileColors.length])
+    }));
+    const members = overlays.filter(p => p.member);
+    const traces: DerivedTrace[] = [
+        ...(showWetBulb ? ['wetBulb' as const] : []),
+        ...(showVirtualTemperature ? ['virtualTemp' as const] : [])
+    ];
+
+    // Legend entries: the sounding and its traces, named profiles, then one entry each for members, mean and spread
+    const entries: SkewTLegendEntry[] = [
+        { name: 'Air Temperature', color: theme.lines.temp.color, swatch: 'box' },
+        { name: 'Dew Point Temperature', color: theme.lines.dwpt.color, swatch: 'box' },
+        ...traces.map((t): SkewTLegendEntry => ({
+            name: DERIVED_TRACE_NAMES[t],
+            color: theme.lines[t].color,
+            dashArray: theme.lines[t].dashArray,
+            swatch: 'line'
+        })),
+        ...overlays.filter(p => !p.member).map((p): SkewTLegendEntry => ({ name: p.name, color: p.color, dashArray: p.dashArray, swatch: 'line' }))
+    ];
+    if (ensemble && members.length) {
+        entries.push({ name: `Ensemble members (${members.length})`, color: theme.lines.member.color, swatch: 'line' });
+        if (ensemble.mean !== false) {
+            entries.push({ name: 'Ensemble mean', color: theme.lines.mean.color, dashArray: theme.lines.mean.dashArray, swatch: 'line' });
+        }
+        if (ensemble.spread) {
+            entries.push({ name: `Spread P${ensemble.spread[0]}–P${ensemble.spread[1]}`, color: theme.fills.tempSpread, swatch: 'band' });
+        }
+    }
+    const legendRows = legendLayout(entries, width).rows;
+
+    // Setup chart dimensions and constants
+    const margin = DEFAULT_MARGIN;
+    // The side panel takes its width and a gap for the wind barbs from the diagram
+    const panelWidth = sidePanel?.width ?? DEFAULT_SIDE_PANEL_WIDTH;
+    const w: number = width - margin.left - margin.right - (sidePanel ? panelWidth + SIDE_PANEL_GAP : 0);
+    const indicesHeight = showIndices ? 60 : 0;
+    const legendExtra = Math.max(0, legendRows - 1) * LEGEND_ROW_HEIGHT;
+    // Leave room for legend and indices
+    const h: number = height - margin.top - margin.bottom - 50 - legendExtra - indicesHeight;
+    const deg2rad = Math.PI / 180;
+    const tan = Math.tan(skewAngle * deg2rad);
+    const basep = basePressure;
+    const topp = topPressure ??
+        Math.max(MIN_AUTO_TOP_PRESSURE, getSmallestPressureValue([...sounding, ...overlays.flatMap(p => p.data)]) - 10);
+    const inDomain = (p: number) => p >= topp && p <= basep;
+    const plines = pressureLines.filter(inDomain);
+    const pticks = [...pressureTicks.filter(inDomain), topp];
+
+    // Create scales; x and y are replaced by rescaled copies while zoomed
+    const baseX: d3.ScaleLinear<number, number> = d3.scaleLinear().range([0, w]).domain(temperatureRange);
+    const baseY: d3.ScaleLogarithmic<number, number> = d3.scaleLog().range([0, h]).domain([topp, basep]);
+    let x = baseX;
+    let y = baseY;
+
+    // Create or select the SVG groups
+    const layers = joinLayers(wrapper, LAYERS);
+    const translate = `translate(${margin.left}, ${margin.top})`;
+
+    // Background fill, part of the svg so that exported images keep the theme
+    layers.canvas.selectAll<SVGRectElement, string>('rect')
+        .data([theme.background])
+        .join('rect')
+        .attr('width', width)
+        .attr('height', height)
+        .style('fill', d => d);
+
+    const container = layers.container
+        .attr('id', `${idPrefix}-container`)
+        .attr('transform', translate);
+
+    const skewtbg = layers.skewtbg
+        .attr('id', `${idPrefix}-background`)
+        .attr('transform', translate);
+
+    const skewtgroup = layers.skewt
+        .attr('transform', translate);
+    const plot = joinLayers(skewtgroup, PLOT_LAYERS);
+
+    // The tooltip overlay lies in the container below; the drawings above it, the hodograph inset,
+    // the legend and the indices box let the pointer through to it. Only the surface handles take it.
+    (['skewtbg', 'skewt', 'windbarb', 'legend', 'indices', 'hodograph'] as const)
+        .forEach(name => layers[name].style('pointer-events', 'none'));
+    plot['edit-layer'].style('pointer-events', 'visiblePainted');
+
+    const barbgroup = layers.windbarb
+        .style('stroke', theme.barbs.color)
+        .style('stroke-width', `${theme.barbs.width}px`)
+        .style('fill', 'none')
+        .attr('transform', translate);
+
+    ///////////////////
+    // Derived data; the sounding and its parcel change while a surface handle is dragged
+    let current = sounding;
+    let withHeights = fillHeights(current);
+    let parcel = showParcel ? liftParcel(current) : null;
+    let freezing = freezingOverlays();
+    let features = showFeatures ? soundingFeatures(current) : [];
+    let derived = traces.length ? derivedTemperatures(current) : [];
+    let panelProfile = sidePanel ? sidePanelProfile(withHeights, sidePanel.variable) : [];
+    let edited = false;
+    // Hover focus of the diagram and the side panel, replaced on every render
+    let focusChart: (press?: number) => void = () => undefined;
+    let focusPanel: (press?: number) => void = () => undefined;
+    const stats = ensemble && members.length ? ensembleStatistics(members.map(p => p.data), ensemble.spread) : null;
+    const mean = stats && ensemble?.mean !== false
+        ? [{
+            name: 'Ensemble mean',
+            data: stats.mean,
+            color: theme.lines.mean.color,
+            strokeWidth: theme.lines.mean.width,
+            dashArray: theme.lines.mean.dashArray,
+            opacity: theme.lines.mean.opacity
+        }]
+        : [];
+
+    ///////////////////
+    // Draw chart elements
+    // One symbol per rounded speed in the data, calm included
+    // Wind barbs at the data levels, or at fixed heights above ground interpolated from them
+    const ground = barbHeights ? heightsAboveGround(withHeights) : [];
+    const winds = barbHeights
+        ? barbHeights.map(hght => interpolateToHeight(ground, hght)).filter((d): d is SkewTMeasurement => d !== undefined)
+        : sounding;
+    const speeds = winds.filter(d => typeof d.wspd === 'number' && d.wspd >= 0).map(d => barbSpeed(d.wspd!));
+    makeWindbarbs(container, DEFAULT_BARB_SIZE, barbPrefix, theme.barbs.color, speeds, hemisphere === 'south');
+
+    // Zoom state is kept on the svg node, so a data update does not reset the view
+    const zoom = d3.zoom<SVGSVGElement, unknown>();
+    if (interactive && zoomable) {
+        setupZoom();
+        applyTransform(d3.zoomTransform(svg));
+    } else {
+        wrapper.on('.zoom', null);
+        layers['reset-zoom-button'].selectAll('*').remove();
+    }
+    render();
+
+    const legendHeight = 40;
+    drawLegend(layers.legend.attr('transform', `translate(0, ${h + margin.top + legendHeight})`), entries, width, theme);
+
+    drawIndices();
+
+    if (showHodograph) {
+        // Keep clear of the wind speed readout, the barbs and the height scales along the right edge
+        const scalesWidth = ((heightAxis ? 1 : 0) + (showFlightLevels ? 1 : 0)) * HEIGHT_AXIS_WIDTH;
+        const inset = layers.hodograph
+            .attr('transform', `translate(${margin.left + w - DEFAULT_HODOGRAPH_INSET_SIZE - 80 - scalesWidth}, ${margin.top + 10})`);
+        drawHodograph(inset, current, DEFAULT_HODOGRAPH_INSET_SIZE, speedUnit, true, theme);
+    } else {
+        layers.hodograph.selectAll('*').remove();
+    }
+
+    if (interactive) {
+        // A custom handler takes the SVG image in place of the export menu
+        const source = () => chartExportSource(svg, current, options);
+        addDownloadButton(
+            layers['download-button'].attr('transform', `translate(${w + margin.left + 10}, ${margin.top + 20})`),
+            onDownload ? ['svg'] : exportOptions?.formats ?? DEFAULT_EXPORT_FORMATS,
+            format => {
+                if (onDownload) onDownload(chartToSvgString(source()));
+                else downloadSkewT(format, source(), exportOptions).catch(console.error);
+            },
+            exportOptions?.pngScale,
+            theme
+        );
+    } else {
+        layers['download-button'].selectAll('*').remove();
+    }
+
+    // Detach the zoom handlers, which hold the options of this call
+    return () => {
+        wrapper.interrupt().on('.zoom', null);
+    };
+
+    ///////////////////
+    // Function implementations
+
+    function render() {
+        // Everything drawn against the x and y scales; the joins update in place
+        drawBackground(skewtbg, w, h, x, y, basep, topp, tan, plines, pticks, showMoistAdiabats, showMixingRatioLines, clipId, theme, units);
+        drawParcel(parcel, plot['parcel-layer'], x, y, basep, tan, clipId, theme);
+        drawEnsembleSpread(ensemble?.spread ? stats : null, plot['spread-layer'], x, y, basep, tan, clipId, theme);
+        drawProfiles(overlays, plot['profile-layer'], x, y, basep, tan, undefined, clipId, theme);
+        drawProfiles(mean, plot['mean-layer'], x, y, basep, tan, 'mean', clipId, theme);
+        drawFreezingLevels(freezing.levels, freezing.wetBulbZero, freezing.icing, plot['freezing-layer'], x, y, basep, tan, clipId, theme, units);
+        drawTempDewLines(current, plot['sounding-layer'], x, y, basep, tan, clipId, theme, derived, traces);
+        drawFeatureBrackets(features, plot['feature-layer'], y, theme, units);
+        drawHeightScales(withHeights, heightAxis, showFlightLevels, plot['height-layer'], w, y, theme, units);
+        drawWindBarbs(winds, barbgroup, w, y, barbPrefix, barbSpacing);
+        if (interactive) {
+            focusChart = setupTooltips(withHeights, plot['focus-layer'], container, w, h, y, x, basep, tan, units, theme, traces,
+                sidePanel ? focusAt : undefined);
+        }
+        if (sidePanel) {
+            focusPanel = drawSidePanel(
+                panelProfile,
+                sidePanel.variable,
+                layers['side-panel'].attr('transform', `translate(${margin.left + w + SIDE_PANEL_GAP}, ${margin.top})`),
+                panelWidth,
+                h,
+                y,
+                plines,
+                `${idPrefix}-panel-clipper`,
+                theme,
+                units,
+                interactive ? focusAt : undefined
+            );
+        } else {
+            layers['side-panel'].selectAll('*').remove();
+        }
+        if (interactive && editableSurface) {
+            drawSurfaceHandles(plot['edit-layer'], surfaceLevel(current), x, y, basep, tan, dragSurface, endSurfaceDrag, theme);
+        } else {
+            plot['edit-layer'].selectAll('*').remove();
+        }
+    }
+
+    function focusAt(press?: number) {
+        // One crosshair level for the diagram and the side panel, wherever the pointer is
+        focusChart(press);
+        focusPanel(press);
+    }
+
+    function freezingOverlays() {
+        const wbz = showWetBulbZero ? wetBulbZero(withHeights) : undefined;
+        return {
+            levels: showFreezingLevels ? freezingLevels(withHeights) : [],
+            wetBulbZero: wbz ? [wbz] : [],
+            icing: showIcingLayers ? icingLayers(withHeights) : []
+        };
+    }
+
+    function drawIndices() {
+        if (showIndices) {
+            drawIndicesPanel(
+                layers.indices.attr('transform', `translate(${margin.left}, ${h + margin.top + 65 + legendExtra})`),
+                computeIndices(current),
+                w,
+                theme,
+                units
+            );
+        } else {
+            layers.indices.selectAll('*').remove();
+        }
+    }
+
+    function dragSurface(field: 'temp' | 'dwpt', value: number) {
+        // Recompute the parcel and indices live; the new sounding is reported once the drag ends
+        current = modifySurface(current, { [field]: Math.round(value * 10) / 10 });
+        withHeights = fillHeights(current);
+        parcel = showParcel ? liftParcel(current) : null;
+        freezing = freezingOverlays();
+        features = showFeatures ? soundingFeatures(current) : [];
+        derived = traces.length ? derivedTemperatures(current) : [];
+        panelProfile = sidePanel ? sidePanelProfile(withHeights, sidePanel.variable) : [];
+        edited = true;
+        render();
+        drawIndices();
+    }
+
+    function endSurfaceDrag() {
+        if (edited) onDataChange?.(current);
+        edited = false;
+    }
+
+    function applyTransform(t: d3.ZoomTransform) {
+        // The zoom transform is in wrapper coordinates, the scales in plot coordinates
+        const plotTransform = d3.zoomIdentity
+            .translate(t.x + (t.k - 1) * margin.left, t.y + (t.k - 1) * margin.top)
+            .scale(t.k);
+        x = plotTransform.rescaleX(baseX);
+        y = plotTransform.rescaleY(baseY);
+    }
+
+    function setupZoom() {
+        const plotExtent: [[number, number], [number, number]] =
+            [[margin.left, margin.top], [margin.left + w, margin.top + h]];
+
+        zoom
+            .scaleExtent([1, MAX_ZOOM])
+            .extent(plotExtent)
+            .translateExtent(plotExtent)
+            .filter(event => {
+                // Only start gestures inside the plot area
+                if (event.button || (event.ctrlKey && event.type !== 'wheel')) return false;
+                const [px, py] = d3.pointers(event, container.node())[0] || [NaN, NaN];
+                return px >= 0 && px <= w && py >= 0 && py <= h;
+            })
+            .on('zoom', event => {
+                applyTransform(event.transform);
+                render();
+            });
+
+        wrapper.call(zoom);
+
+        addResetZoomButton(
+            layers['reset-zoom-button'].attr('transform', `translate(${w + margin.left + 10}, ${margin.top + 60})`),
+            () => wrapper.transition().duration(300).call(zoom.transform, d3.zoomIdentity),
+            theme
+        );
+    }
+}
+
+/**
+ * Renders a SkewT chart to an SVG document string without a browser, e.g. on a
+ * server or in a batch job. It uses the drawing code of the SkewT component on a
+ * built-in headless document, so neither a DOM nor XMLSerializer is required. The
+ * title line is placed above the chart, as in the component. The output is
+ * byte-stable: the same data and options always give the same string.
+ *
+ * @param data Sounding to draw
+ * @param options Chart options, the SkewT props without the data
+ * @returns Standalone SVG markup
+ */
+export function renderSkewTToSvgString(data: SkewTMeasurement[], options: SkewTRenderOptions): string {
+    const width = options.width ?? DEFAULT_WIDTH;
+    const height = options.height ?? DEFAULT_HEIGHT;
+    const theme = options.theme ?? LIGHT_THEME;
+
+    const root = createHeadlessSvg();
+    const image = d3.select(root);
+    drawImageFrame(image, width, height, skewTTitle(options.siteName, options.sourceName), theme);
+
+    const chart = image.append('svg')
+        .attr('y', TITLE_HEIGHT);
+    renderSkewT(chart.node()!, data, options);
+
+    const warnings = soundingWarnings(data, options.profiles);
+    if (warnings.length) options.onDataWarning?.(warnings);
+
+    return serializeHeadlessSvg(root);
+}
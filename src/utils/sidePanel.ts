@@ -0,0 +1,44 @@
+import { SidePanelPoint, SidePanelVariable, SkewTMeasurement } from '../types';
+import { equivalentPotentialTemperature, relativeHumidity } from './thermodynamics';
+
+const valid = (v?: number) => typeof v === 'number' && v > -1000;
+
+/**
+ * Computes the profile of a side panel variable. Wind speed, relative humidity and
+ * theta-e are given at the levels that have their fields; lapse rates, which need
+ * heights, at the log-pressure middle of each layer between two levels with height
+ * and temperature.
+ *
+ * @param data Array of measurement points, in any order
+ * @param variable Variable to compute
+ * @returns Points from the surface up, with wind speeds in m/s, relative humidity in %,
+ * lapse rates in K/km (positive when the temperature falls with height) and theta-e in K
+ */
+export function sidePanelProfile(data: SkewTMeasurement[], variable: SidePanelVariable): SidePanelPoint[] {
+    const levels = data.filter(d => d.press > 0).sort((a, b) => b.press - a.press);
+
+    switch (variable) {
+        case 'windSpeed':
+            return levels
+                .filter(d => typeof d.wspd === 'number' && d.wspd >= 0)
+                .map(d => ({ press: d.press, value: d.wspd! }));
+        case 'relativeHumidity':
+            return levels
+                .filter(d => valid(d.temp) && valid(d.dwpt))
+                .map(d => ({ press: d.press, value: relativeHumidity(d.temp!, d.dwpt!) }));
+        case 'thetaE':
+            return levels
+                .filter(d => valid(d.temp) && valid(d.dwpt))
+                .map(d => ({ press: d.press, value: equivalentPotentialTemperature(d.temp!, d.dwpt!, d.press) }));
+        case 'lapseRate': {
+            const known = levels.filter(d => valid(d.temp) && typeof d.hght === 'number');
+            return known.slice(1)
+                .map((upper, i) => ({ lower: known[i], upper }))
+                .filter(({ lower, upper }) => upper.hght! > lower.hght!)
+                .map(({ lower, upper }) => ({
+                    press: Math.sqrt(lower.press * upper.press),
+                    value: (lower.temp! - upper.temp!) / (upper.hght! - lower.hght!) * 1000
+                }));
+        }
+    }
+}
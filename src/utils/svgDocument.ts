@@ -0,0 +1,314 @@
+/**
+ * Minimal SVG document used to render charts without a browser. It implements the
+ * part of the DOM that the drawing functions and d3 rely on: creating, moving and
+ * removing elements, attributes, inline styles, text and the simple selectors used
+ * in this library (tag, classes, [class="…"], ":scope >" and comma lists).
+ */
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+type SimpleSelector = { scope: boolean, tag?: string, classes: string[], exactClass?: string };
+
+const selectorCache = new Map<string, SimpleSelector[]>();
+
+/**
+ * Parses a comma separated list of simple selectors
+ */
+function parseSelector(selector: string): SimpleSelector[] {
+    let parsed = selectorCache.get(selector);
+    if (parsed) return parsed;
+
+    parsed = selector.split(',').map(part => {
+        let s = part.trim();
+        const scope = s.startsWith(':scope');
+        if (scope) s = s.replace(/^:scope\s*>\s*/, '');
+
+        const match = /^(\*|[a-zA-Z][\w-]*)?((?:\.[\w-]+)*)(?:\[class="([^"]*)"\])?$/.exec(s);
+        if (!match || !s) throw new Error(`Unsupported selector: ${selector}`);
+
+        return {
+            scope,
+            tag: match[1] === '*' ? undefined : match[1],
+            classes: match[2].split('.').filter(Boolean),
+            exactClass: match[3]
+        };
+    });
+
+    selectorCache.set(selector, parsed);
+    return parsed;
+}
+
+function escapeText(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+    return escapeText(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Inline style of an element, serialized in the order the properties were first set
+ */
+class SvgStyle {
+    private properties = new Map<string, string>();
+
+    setProperty(name: string, value: unknown): void {
+        if (value === null || value === undefined || value === '') this.properties.delete(name);
+        else this.properties.set(name, String(value));
+    }
+
+    removeProperty(name: string): string {
+        const value = this.getPropertyValue(name);
+        this.properties.delete(name);
+        return value;
+    }
+
+    getPropertyValue(name: string): string {
+        return this.properties.get(name) ?? '';
+    }
+
+    get cssText(): string {
+        return Array.from(this.properties, ([name, value]) => `${name}: ${value};`).join(' ');
+    }
+}
+
+abstract class SvgNode {
+    parentNode: SvgElement | null = null;
+
+    constructor(readonly ownerDocument: SvgDocument) {}
+
+    abstract get textContent(): string;
+
+    get nextSibling(): SvgNode | null {
+        if (!this.parentNode) return null;
+        const siblings = this.parentNode.childNodes;
+        return siblings[siblings.indexOf(this) + 1] ?? null;
+    }
+
+    get previousSibling(): SvgNode | null {
+        if (!this.parentNode) return null;
+        const siblings = this.parentNode.childNodes;
+        return siblings[siblings.indexOf(this) - 1] ?? null;
+    }
+
+    /**
+     * Same bit flags as Node.compareDocumentPosition, without the disconnected case
+     */
+    compareDocumentPosition(other: SvgNode): number {
+        if (other === this) return 0;
+
+        const path = (node: SvgNode) => {
+            const nodes: SvgNode[] = [];
+            for (let n: SvgNode | null = node; n; n = n.parentNode) nodes.unshift(n);
+            return nodes;
+        };
+        const a = path(this);
+        const b = path(other);
+        let i = 0;
+        while (i < a.length && i < b.length && a[i] === b[i]) i++;
+
+        if (i === a.length) return 4 | 16; // other is a descendant
+        if (i === b.length) return 2 | 8; // other is an ancestor
+        const siblings = (a[i - 1] as SvgElement).childNodes;
+        return siblings.indexOf(b[i]) > siblings.indexOf(a[i]) ? 4 : 2;
+    }
+
+    abstract serialize(): string;
+}
+
+class SvgText extends SvgNode {
+    readonly nodeType = 3;
+
+    constructor(ownerDocument: SvgDocument, public data: string) {
+        super(ownerDocument);
+    }
+
+    get textContent(): string {
+        return this.data;
+    }
+
+    serialize(): string {
+        return escapeText(this.data);
+    }
+}
+
+class SvgElement extends SvgNode {
+    readonly nodeType = 1;
+    readonly namespaceURI = SVG_NS;
+    readonly style = new SvgStyle();
+    childNodes: SvgNode[] = [];
+    private attributes = new Map<string, string>();
+
+    constructor(ownerDocument: SvgDocument, readonly tagName: string) {
+        super(ownerDocument);
+    }
+
+    get localName(): string {
+        return this.tagName;
+    }
+
+    get children(): SvgElement[] {
+        return this.childNodes.filter((n): n is SvgElement => n instanceof SvgElement);
+    }
+
+    get firstChild(): SvgNode | null {
+        return this.childNodes[0] ?? null;
+    }
+
+    get lastChild(): SvgNode | null {
+        return this.childNodes[this.childNodes.length - 1] ?? null;
+    }
+
+    get textContent(): string {
+        return this.childNodes.map(n => n.textContent).join('');
+    }
+
+    set textContent(value: string | null) {
+        this.childNodes.forEach(n => { n.parentNode = null; });
+        this.childNodes = [];
+        if (value !== null && value !== undefined && value !== '') {
+            this.appendChild(new SvgText(this.ownerDocument, String(value)));
+        }
+    }
+
+    appendChild<T extends SvgNode>(child: T): T {
+        return this.insertBefore(child, null);
+    }
+
+    insertBefore<T extends SvgNode>(child: T, reference: SvgNode | null): T {
+        if (child.parentNode) child.parentNode.removeChild(child);
+        const index = reference ? this.childNodes.indexOf(reference) : -1;
+        if (index < 0) this.childNodes.push(child);
+        else this.childNodes.splice(index, 0, child);
+        child.parentNode = this;
+        return child;
+    }
+
+    removeChild<T extends SvgNode>(child: T): T {
+        const index = this.childNodes.indexOf(child);
+        if (index >= 0) this.childNodes.splice(index, 1);
+        child.parentNode = null;
+        return child;
+    }
+
+    setAttribute(name: string, value: unknown): void {
+        this.attributes.set(name, String(value));
+    }
+
+    setAttributeNS(namespace: string | null, name: string, value: unknown): void {
+        this.setAttribute(this.qualify(namespace, name), value);
+    }
+
+    getAttribute(name: string): string | null {
+        return this.attributes.get(name) ?? null;
+    }
+
+    getAttributeNS(namespace: string | null, name: string): string | null {
+        return this.getAttribute(this.qualify(namespace, name));
+    }
+
+    hasAttribute(name: string): boolean {
+        return this.attributes.has(name);
+    }
+
+    removeAttribute(name: string): void {
+        this.attributes.delete(name);
+    }
+
+    removeAttributeNS(namespace: string | null, name: string): void {
+        this.removeAttribute(this.qualify(namespace, name));
+    }
+
+    // Headless charts are static, event handlers are accepted and ignored
+    addEventListener(): void {}
+
+    removeEventListener(): void {}
+
+    matches(selector: string): boolean {
+        return parseSelector(selector).some(s => !s.scope && this.matchesSimple(s));
+    }
+
+    querySelector(selector: string): SvgElement | null {
+        return this.querySelectorAll(selector)[0] ?? null;
+    }
+
+    querySelectorAll(selector: string): SvgElement[] {
+        const selectors = parseSelector(selector);
+        const result: SvgElement[] = [];
+        const visit = (element: SvgElement) => {
+            element.children.forEach(c => {
+                if (selectors.some(s => (!s.scope || c.parentNode === this) && c.matchesSimple(s))) result.push(c);
+                visit(c);
+            });
+        };
+        visit(this);
+        return result;
+    }
+
+    serialize(): string {
+        const attributes = Array.from(this.attributes, ([name, value]) => ` ${name}="${escapeAttribute(value)}"`);
+        const css = this.style.cssText;
+        if (css) attributes.push(` style="${escapeAttribute(css)}"`);
+
+        const open = `<${this.tagName}${attributes.join('')}`;
+        if (!this.childNodes.length) return `${open}/>`;
+        return `${open}>${this.childNodes.map(n => n.serialize()).join('')}</${this.tagName}>`;
+    }
+
+    private matchesSimple(s: SimpleSelector): boolean {
+        if (s.tag && s.tag !== this.tagName) return false;
+        const className = this.getAttribute('class') ?? '';
+        if (s.exactClass !== undefined && className !== s.exactClass) return false;
+        const classes = className.split(/\s+/);
+        return s.classes.every(c => classes.includes(c));
+    }
+
+    private qualify(namespace: string | null, name: string): string {
+        return namespace === XLINK_NS && !name.includes(':') ? `xlink:${name}` : name;
+    }
+}
+
+class SvgDocument {
+    documentElement: SvgElement | null = null;
+
+    createElementNS(_namespace: string | null, name: string): SvgElement {
+        return new SvgElement(this, name);
+    }
+
+    createElement(name: string): SvgElement {
+        return new SvgElement(this, name);
+    }
+
+    createTextNode(data: string): SvgText {
+        return new SvgText(this, data);
+    }
+}
+
+/**
+ * Creates a detached root svg element of a new headless document
+ *
+ * @returns The root element, typed as a DOM svg element for use with d3
+ */
+export function createHeadlessSvg(): SVGSVGElement {
+    const document = new SvgDocument();
+    const root = document.createElementNS(SVG_NS, 'svg');
+    root.setAttribute('xmlns', SVG_NS);
+    root.setAttribute('xmlns:xlink', XLINK_NS);
+    document.documentElement = root;
+    return root as unknown as SVGSVGElement;
+}
+
+/**
+ * Serializes an element created by createHeadlessSvg. Attributes and style
+ * properties keep the order in which they were first set, so equal input gives
+ * byte-identical output.
+ *
+ * @param element Root or any descendant of a headless svg
+ * @returns SVG markup
+ */
+export function serializeHeadlessSvg(element: SVGElement): string {
+    const node: unknown = element;
+    if (!(node instanceof SvgElement)) throw new Error('Element was not created by createHeadlessSvg');
+    return node.serialize();
+}
@@ -0,0 +1,86 @@
+import {
+    dewpointFromMixingRatio,
+    dewpointFromVaporPressure,
+    dryAdiabaticTemperature,
+    equivalentPotentialTemperature,
+    hypsometricThickness,
+    liftingCondensationLevel,
+    mixingRatio,
+    moistAdiabaticTemperature,
+    potentialTemperature,
+    relativeHumidity,
+    saturationMixingRatio,
+    saturationVaporPressure,
+    standardAtmosphereHeight,
+    standardAtmospherePressure,
+    virtualTemperature,
+    wetBulbTemperature
+} from './thermodynamics';
+
+describe('moisture', () => {
+    it('computes the Bolton saturation vapour pressure', () => {
+        expect(saturationVaporPressure(0)).toBeCloseTo(6.112, 3);
+        expect(saturationVaporPressure(20)).toBeCloseTo(23.369, 3);
+    });
+
+    it('inverts the vapour pressure and mixing ratio', () => {
+        expect(dewpointFromVaporPressure(saturationVaporPressure(15))).toBeCloseTo(15, 6);
+        expect(dewpointFromMixingRatio(saturationMixingRatio(-10, 700), 700)).toBeCloseTo(-10, 3);
+    });
+
+    it('computes mixing ratios and relative humidity', () => {
+        expect(mixingRatio(10, 1000)).toBeCloseTo(0.006283, 6);
+        expect(saturationMixingRatio(20, 1000)).toBeCloseTo(0.014884, 6);
+        expect(relativeHumidity(25, 20)).toBeCloseTo(73.78, 2);
+        expect(relativeHumidity(10, 10)).toBe(100);
+    });
+});
+
+describe('derived temperatures', () => {
+    it('computes potential and equivalent potential temperature', () => {
+        expect(potentialTemperature(20, 850)).toBeCloseTo(307.07, 2);
+        expect(potentialTemperature(20, 1000)).toBeCloseTo(293.15, 6);
+        expect(equivalentPotentialTemperature(25, 20, 1000)).toBeCloseTo(341.56, 2);
+    });
+
+    it('computes virtual and wet-bulb temperature', () => {
+        expect(virtualTemperature(25, 20, 1000)).toBeCloseTo(27.66, 2);
+        expect(wetBulbTemperature(25, 20, 1000)).toBeCloseTo(21.43, 2);
+        expect(wetBulbTemperature(10, 10, 900)).toBeCloseTo(10, 1);
+    });
+});
+
+describe('adiabats', () => {
+    it('finds the lifting condensation level', () => {
+        const lcl = liftingCondensationLevel(25, 20, 1000);
+        expect(lcl.press).toBeCloseTo(929.2, 1);
+        expect(lcl.temp).toBeCloseTo(18.82, 2);
+    });
+
+    it('follows the dry adiabat', () => {
+        expect(dryAdiabaticTemperature(25, 1000, 500)).toBeCloseTo(-28.52, 2);
+        expect(dryAdiabaticTemperature(dryAdiabaticTemperature(25, 1000, 500), 500, 1000)).toBeCloseTo(25, 6);
+    });
+
+    it('integrates the moist adiabat', () => {
+        expect(moistAdiabaticTemperature(20, 1000, 500)).toBeCloseTo(-8.45, 2);
+        expect(moistAdiabaticTemperature(20, 1000, 200)).toBeCloseTo(-61.35, 2);
+        expect(moistAdiabaticTemperature(moistAdiabaticTemperature(20, 1000, 500), 500, 1000)).toBeCloseTo(20, 1);
+    });
+});
+
+describe('heights', () => {
+    it('computes the hypsometric thickness', () => {
+        expect(hypsometricThickness(1000, 500, 0, -30)).toBeCloseTo(5237.4, 1);
+        expect(hypsometricThickness(500, 1000, 0, -30)).toBeCloseTo(-5237.4, 1);
+    });
+
+    it('follows the ICAO standard atmosphere', () => {
+        expect(standardAtmospherePressure(0)).toBeCloseTo(1013.25, 6);
+        expect(standardAtmospherePressure(11000)).toBeCloseTo(226.32, 2);
+        expect(standardAtmosphereHeight(500)).toBeCloseTo(5574.4, 1);
+        expect(standardAtmosphereHeight(100)).toBeCloseTo(16179.7, 1);
+        expect(standardAtmosphereHeight(10)).toBeCloseTo(31054.6, 1);
+        expect(standardAtmosphereHeight(standardAtmospherePressure(25000))).toBeCloseTo(25000, 3);
+    });
+});
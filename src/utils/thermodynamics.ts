@@ -0,0 +1,289 @@
+import { DerivedTemperatures, SkewTMeasurement } from '../types';
+import {
+    CP,
+    EPSILON,
+    GRAVITY,
+    ISA_GAS_CONSTANT,
+    ISA_LAYERS,
+    ISA_SEA_LEVEL_PRESSURE,
+    ISA_SEA_LEVEL_TEMPERATURE,
+    KAPPA,
+    LV,
+    RD,
+    ZERO_CELSIUS
+} from '../constants';
+
+/**
+ * Computes the saturation vapour pressure over water (Bolton, 1980)
+ *
+ * @param temp Temperature in degrees Celsius
+ * @returns Saturation vapour pressure in hPa
+ */
+export function saturationVaporPressure(temp: number): number {
+    return 6.112 * Math.exp((17.67 * temp) / (temp + 243.5));
+}
+
+/**
+ * Computes the dew point for a given vapour pressure (inverse of saturationVaporPressure)
+ *
+ * @param vaporPressure Partial pressure of water vapour in hPa
+ * @returns Dew point in degrees Celsius
+ */
+export function dewpointFromVaporPressure(vaporPressure: number): number {
+    const ln = Math.log(vaporPressure / 6.112);
+    return (243.5 * ln) / (17.67 - ln);
+}
+
+/**
+ * Computes the relative humidity over water from temperature and dew point
+ *
+ * @param temp Temperature in degrees Celsius
+ * @param dwpt Dew point in degrees Celsius
+ * @returns Relative humidity in %
+ */
+export function relativeHumidity(temp: number, dwpt: number): number {
+    return 100 * saturationVaporPressure(dwpt) / saturationVaporPressure(temp);
+}
+
+/**
+ * Computes the mixing ratio of a given vapour pressure
+ *
+ * @param vaporPressure Partial pressure of water vapour in hPa
+ * @param press Total pressure in hPa
+ * @returns Mixing ratio in kg/kg
+ */
+export function mixingRatio(vaporPressure: number, press: number): number {
+    return (EPSILON * vaporPressure) / (press - vaporPressure);
+}
+
+/**
+ * Computes the saturation mixing ratio at a given temperature and pressure
+ *
+ * @param temp Temperature in degrees Celsius
+ * @param press Pressure in hPa
+ * @returns Saturation mixing ratio in kg/kg
+ */
+export function saturationMixingRatio(temp: number, press: number): number {
+    return mixingRatio(saturationVaporPressure(temp), press);
+}
+
+/**
+ * Computes the dew point at which air with a given mixing ratio is saturated
+ *
+ * @param ratio Mixing ratio in kg/kg
+ * @param press Pressure in hPa
+ * @returns Dew point in degrees Celsius
+ */
+export function dewpointFromMixingRatio(ratio: number, press: number): number {
+    return dewpointFromVaporPressure((ratio * press) / (EPSILON + ratio));
+}
+
+/**
+ * Lifts or lowers a parcel dry adiabatically between two pressure levels
+ *
+ * @param temp Starting temperature in degrees Celsius
+ * @param fromPress Starting pressure in hPa
+ * @param toPress Target pressure in hPa
+ * @returns Temperature at the target pressure in degrees Celsius
+ */
+export function dryAdiabaticTemperature(temp: number, fromPress: number, toPress: number): number {
+    return (temp + ZERO_CELSIUS) * Math.pow(toPress / fromPress, KAPPA) - ZERO_CELSIUS;
+}
+
+/**
+ * Computes the potential temperature
+ *
+ * @param temp Temperature in degrees Celsius
+ * @param press Pressure in hPa
+ * @returns Potential temperature in Kelvin
+ */
+export function potentialTemperature(temp: number, press: number): number {
+    return dryAdiabaticTemperature(temp, press, 1000) + ZERO_CELSIUS;
+}
+
+/**
+ * Computes the equivalent potential temperature (Bolton, 1980)
+ *
+ * @param temp Temperature in degrees Celsius
+ * @param dwpt Dew point in degrees Celsius
+ * @param press Pressure in hPa
+ * @returns Equivalent potential temperature in Kelvin
+ */
+export function equivalentPotentialTemperature(temp: number, dwpt: number, press: number): number {
+    const t = temp + ZERO_CELSIUS;
+    const r = saturationMixingRatio(dwpt, press) * 1000; // g/kg
+    const tlcl = liftingCondensationLevel(temp, dwpt, press).temp + ZERO_CELSIUS;
+    const theta = t * Math.pow(1000 / press, 0.2854 * (1 - 0.00028 * r));
+    return theta * Math.exp((3.376 / tlcl - 0.00254) * r * (1 + 0.00081 * r));
+}
+
+/**
+ * Computes the virtual temperature
+ *
+ * @param temp Temperature in degrees Celsius
+ * @param dwpt Dew point in degrees Celsius
+ * @param press Pressure in hPa
+ * @returns Virtual temperature in degrees Celsius
+ */
+export function virtualTemperature(temp: number, dwpt: number, press: number): number {
+    const r = saturationMixingRatio(dwpt, press);
+    return (temp + ZERO_CELSIUS) * (1 + r / EPSILON) / (1 + r) - ZERO_CELSIUS;
+}
+
+/**
+ * Computes the thickness of a layer with the hypsometric equation, using the mean of
+ * the virtual temperatures at its bottom and top
+ *
+ * @param bottomPress Pressure at the bottom of the layer in hPa
+ * @param topPress Pressure at the top of the layer in hPa
+ * @param bottomTv Virtual temperature at the bottom in degrees Celsius
+ * @param topTv Virtual temperature at the top in degrees Celsius
+ * @returns Thickness in meters, negative if topPress is the higher pressure
+ */
+export function hypsometricThickness(bottomPress: number, topPress: number, bottomTv: number, topTv: number): number {
+    const meanTv = (bottomTv + topTv) / 2 + ZERO_CELSIUS;
+    return (RD * meanTv / GRAVITY) * Math.log(bottomPress / topPress);
+}
+
+// Temperature and pressure at the base of each standard atmosphere layer
+const ISA_BASES = ISA_LAYERS.reduce<Array<{ hght: number, lapseRate: number, temp: number, press: number }>>((bases, layer, i) => {
+    const below = bases[i - 1];
+    bases.push(below
+        ? { ...layer, temp: below.temp - below.lapseRate * (layer.hght - below.hght), press: standardLayerPressure(below, layer.hght) }
+        : { ...layer, temp: ISA_SEA_LEVEL_TEMPERATURE, press: ISA_SEA_LEVEL_PRESSURE });
+    return bases;
+}, []);
+
+function standardLayerPressure(base: { hght: number, lapseRate: number, temp: number, press: number }, hght: number): number {
+    const dz = hght - base.hght;
+    if (base.lapseRate === 0) return base.press * Math.exp(-GRAVITY * dz / (ISA_GAS_CONSTANT * base.temp));
+    return base.press * Math.pow(1 - base.lapseRate * dz / base.temp, GRAVITY / (ISA_GAS_CONSTANT * base.lapseRate));
+}
+
+/**
+ * Computes the pressure at a height in the ICAO standard atmosphere
+ *
+ * @param hght Geopotential height above mean sea level in meters
+ * @returns Pressure in hPa
+ */
+export function standardAtmospherePressure(hght: number): number {
+    const base = ISA_BASES.filter(d => d.hght <= hght).pop() ?? ISA_BASES[0];
+    return standardLayerPressure(base, hght);
+}
+
+/**
+ * Computes the height of a pressure in the ICAO standard atmosphere, the pressure
+ * altitude. Flight levels are the pressure altitude in hundreds of feet.
+ *
+ * @param press Pressure in hPa
+ * @returns Geopotential height above mean sea level in meters
+ */
+export function standardAtmosphereHeight(press: number): number {
+    const base = ISA_BASES.filter(d => d.press >= press).pop() ?? ISA_BASES[0];
+    const { hght, lapseRate, temp } = base;
+    if (lapseRate === 0) return hght + ISA_GAS_CONSTANT * temp / GRAVITY * Math.log(base.press / press);
+    return hght + temp / lapseRate * (1 - Math.pow(press / base.press, ISA_GAS_CONSTANT * lapseRate / GRAVITY));
+}
+
+/**
+ * Computes the wet-bulb temperature by lifting the air to its LCL and bringing it
+ * back down along the saturated adiabat (Normand's rule)
+ *
+ * @param temp Temperature in degrees Celsius
+ * @param dwpt Dew point in degrees Celsius
+ * @param press Pressure in hPa
+ * @returns Wet-bulb temperature in degrees Celsius
+ */
+export function wetBulbTemperature(temp: number, dwpt: number, press: number): number {
+    const lcl = liftingCondensationLevel(temp, dwpt, press);
+    return moistAdiabaticTemperature(lcl.temp, lcl.press, press);
+}
+
+/**
+ * Computes the rate of temperature change with pressure of an unsaturated parcel
+ *
+ * @param temp Temperature in degrees Celsius
+ * @param press Pressure in hPa
+ * @returns dT/dp in K/hPa
+ */
+export function dryLapseRate(temp: number, press: number): number {
+    return (KAPPA * (temp + ZERO_CELSIUS)) / press;
+}
+
+/**
+ * Computes the rate of temperature change with pressure of a saturated parcel
+ *
+ * @param temp Temperature in degrees Celsius
+ * @param press Pressure in hPa
+ * @returns dT/dp in K/hPa
+ */
+export function moistLapseRate(temp: number, press: number): number {
+    const t = temp + ZERO_CELSIUS;
+    const rs = saturationMixingRatio(temp, press);
+    return (RD * t + LV * rs) / (press * (CP + (LV * LV * rs * EPSILON) / (RD * t * t)));
+}
+
+/**
+ * Lifts or lowers a saturated parcel along a pseudo-adiabat between two pressure levels
+ *
+ * @param temp Starting temperature in degrees Celsius
+ * @param fromPress Starting pressure in hPa
+ * @param toPress Target pressure in hPa
+ * @param step Maximum integration step in hPa
+ * @returns Temperature at the target pressure in degrees Celsius
+ */
+export function moistAdiabaticTemperature(temp: number, fromPress: number, toPress: number, step = 5): number {
+    const steps = Math.max(1, Math.ceil(Math.abs(toPress - fromPress) / step));
+    const dp = (toPress - fromPress) / steps;
+    let t = temp;
+    let p = fromPress;
+
+    // Fourth-order Runge-Kutta integration of dT/dp
+    for (let i = 0; i < steps; i++) {
+        const k1 = moistLapseRate(t, p);
+        const k2 = moistLapseRate(t + (dp / 2) * k1, p + dp / 2);
+        const k3 = moistLapseRate(t + (dp / 2) * k2, p + dp / 2);
+        const k4 = moistLapseRate(t + dp * k3, p + dp);
+        t += (dp / 6) * (k1 + 2 * k2 + 2 * k3 + k4);
+        p += dp;
+    }
+
+    return t;
+}
+
+/**
+ * Computes the lifting condensation level of a parcel (Bolton, 1980)
+ *
+ * @param temp Parcel temperature in degrees Celsius
+ * @param dwpt Parcel dew point in degrees Celsius
+ * @param press Parcel pressure in hPa
+ * @returns Pressure (hPa) and temperature (°C) of the LCL
+ */
+export function liftingCondensationLevel(temp: number, dwpt: number, press: number): { press: number, temp: number } {
+    const t = temp + ZERO_CELSIUS;
+    const td = Math.min(dwpt, temp) + ZERO_CELSIUS;
+    const tlcl = 1 / (1 / (td - 56) + Math.log(t / td) / 800) + 56;
+
+    return {
+        press: press * Math.pow(tlcl / t, 1 / KAPPA),
+        temp: tlcl - ZERO_CELSIUS
+    };
+}
+
+/**
+ * Computes the wet-bulb and virtual temperature of every level with a temperature
+ * and a dew point
+ *
+ * @param data Array of measurement points, in any order
+ * @returns Derived temperatures from the surface up
+ */
+export function derivedTemperatures(data: SkewTMeasurement[]): DerivedTemperatures[] {
+    return data
+        .filter(d => typeof d.temp === 'number' && d.temp > -1000 && typeof d.dwpt === 'number' && d.dwpt > -1000 && d.press > 0)
+        .sort((a, b) => b.press - a.press)
+        .map(d => ({
+            press: d.press,
+            wetBulb: wetBulbTemperature(d.temp!, d.dwpt!, d.press),
+            virtualTemp: virtualTemperature(d.temp!, d.dwpt!, d.press)
+        }));
+}
@@ -0,0 +1,74 @@
+import { SkewTMeasurement, StormMotion, WindComponents } from '../types';
+
+const BUNKERS_DEVIATION = 7.5; // m/s
+const BUNKERS_DEPTH = 6000; // m
+
+/**
+ * Splits a wind into its u and v components
+ *
+ * @param wdir Direction the wind blows from, in degrees
+ * @param wspd Wind speed, in any unit
+ * @returns The eastward and northward components, in the unit of wspd
+ */
+export function windComponents(wdir: number, wspd: number): WindComponents {
+    const rad = wdir * Math.PI / 180;
+    return {
+        u: -wspd * Math.sin(rad),
+        v: -wspd * Math.cos(rad)
+    };
+}
+
+/**
+ * Estimates supercell storm motion with the Bunkers (2000) internal dynamics method,
+ * using the 0-6 km mean wind and the 0-6 km shear vector
+ *
+ * @param data Array of measurement points with heights and winds
+ * @returns Right and left mover motion in m/s, or null if the winds do not reach 6 km above the lowest level
+ */
+export function bunkersStormMotion(data: SkewTMeasurement[]): StormMotion | null {
+    const levels = data
+        .filter(d =>
+            typeof d.hght === 'number' &&
+            typeof d.wdir === 'number' && d.wdir >= 0 &&
+            typeof d.wspd === 'number' && d.wspd >= 0
+        )
+        .sort((a, b) => a.hght! - b.hght!)
+        .map(d => ({ z: d.hght!, ...windComponents(d.wdir!, d.wspd!) }));
+    if (levels.length < 2) return null;
+
+    const base = levels[0].z;
+    const top = base + BUNKERS_DEPTH;
+    const topIndex = levels.findIndex(l => l.z >= top);
+    if (topIndex < 1) return null;
+
+    // Interpolate the wind at exactly 6 km and integrate the mean wind up to it
+    const below = levels[topIndex - 1];
+    const above = levels[topIndex];
+    const f = (top - below.z) / (above.z - below.z);
+    const windTop = { z: top, u: below.u + f * (above.u - below.u), v: below.v + f * (above.v - below.v) };
+    const layer = [...levels.slice(0, topIndex), windTop];
+
+    let u = 0;
+    let v = 0;
+    for (let i = 0; i < layer.length - 1; i++) {
+        const dz = layer[i + 1].z - layer[i].z;
+        u += (layer[i].u + layer[i + 1].u) / 2 * dz;
+        v += (layer[i].v + layer[i + 1].v) / 2 * dz;
+    }
+    const mean = { u: u / BUNKERS_DEPTH, v: v / BUNKERS_DEPTH };
+
+    const shearU = windTop.u - levels[0].u;
+    const shearV = windTop.v - levels[0].v;
+    const shear = Math.sqrt(shearU * shearU + shearV * shearV);
+    if (shear === 0) return { right: mean, left: mean, mean };
+
+    // Deviate from the mean wind perpendicular to the shear vector
+    const du = BUNKERS_DEVIATION * shearV / shear;
+    const dv = -BUNKERS_DEVIATION * shearU / shear;
+
+    return {
+        right: { u: mean.u + du, v: mean.v + dv },
+        left: { u: mean.u - du, v: mean.v - dv },
+        mean
+    };
+}
@@ -1,94 +1,149 @@
 import * as d3 from 'd3';
 import { convertWindSpeed } from './conversions';
 
+type BarbDatum = { press: number, wdir?: number, wspd?: number };
+
+/**
+ * Speed of the barb symbol for a wind speed: knots rounded to the nearest 5,
+ * 0 for calm winds below 2.5 kt
+ *
+ * @param wspd Wind speed in m/s
+ * @returns Symbol speed in knots
+ */
+export function barbSpeed(wspd: number): number {
+    return Math.round(convertWindSpeed(wspd, 'kt') / 5) * 5;
+}
+
 /**
- * Creates wind barb symbols and adds them to the specified container
+ * Creates wind barb symbols and adds them to the specified container. The
+ * symbols are kept across calls and redrawn in place.
  *
  * @param container D3 selection for the container to add barbs to
- * @param barbsize Size of the wind barbs in pixels
+ * @param barbsize Size of the wind barbs in pixels; the stem grows when the feathers need more room
+ * @param idPrefix Prefix of the symbol ids, followed by the speed in knots
+ * @param color Fill colour of the flags; the lines take the stroke of the barb group
+ * @param speeds Symbol speeds in knots, see barbSpeed; 0 is drawn as a calm circle
+ * @param mirror Whether to draw the feathers on the other side of the stem, as in the Southern Hemisphere
  */
-export function makeWindbarbs(container: d3.Selection<SVGGElement, unknown, null, undefined>, barbsize: number): void {
-    const speeds: number[] = d3.range(5, 105, 5);
-    const barbdef = container.append('defs');
+export function makeWindbarbs(
+    container: d3.Selection<SVGGElement, unknown, null, undefined>,
+    barbsize: number,
+    idPrefix = 'barb',
+    color = '#000',
+    speeds: number[] = d3.range(5, 105, 5),
+    mirror = false
+): void {
+    const side = mirror ? 1 : -1;
+    const barbdef = container.selectAll<SVGDefsElement, null>(':scope > defs.barbs')
+        .data([null])
+        .join('defs')
+        .attr('class', 'barbs');
 
-    speeds.forEach((d: number) => {
-        const thisbarb = barbdef.append('g').attr('id', 'barb' + d);
-        const flags: number = Math.floor(d / 50);
-        const pennants: number = Math.floor((d - flags * 50) / 10);
-        const halfpennants: number = Math.floor((d - flags * 50 - pennants * 10) / 5);
-        let px: number = barbsize;
+    barbdef.selectAll<SVGGElement, number>('g')
+        .data(Array.from(new Set(speeds)).sort(d3.ascending), d => d)
+        .join('g')
+        .attr('id', d => idPrefix + d)
+        .each(function (d: number) {
+            const thisbarb = d3.select(this);
+            const flags: number = Math.floor(d / 50);
+            const pennants: number = Math.floor((d - flags * 50) / 10);
+            const halfpennants: number = Math.floor((d - flags * 50 - pennants * 10) / 5);
+            let px: number = Math.max(barbsize, flags * 7 + (pennants + halfpennants) * 3 + 4);
 
-        // Draw wind barb stems
-        thisbarb.append('line')
-            .attr('x1', 0)
-            .attr('x2', 0)
-            .attr('y1', 0)
-            .attr('y2', barbsize);
+            thisbarb.selectAll('*').remove();
 
-        // Draw wind barb flags and pennants for each stem
-        for (let i = 0; i < flags; i++) {
-            thisbarb.append('polyline')
-                .attr('points', `0,${px} -10,${px} 0,${px - 4}`)
-                .attr('class', 'flag')
-                .style('fill', '#000');
-            px -= 7;
-        }
+            // Calm wind: a circle around the station point, without stem
+            if (d === 0) {
+                thisbarb.append('circle')
+                    .attr('class', 'calm')
+                    .attr('r', 4)
+                    .style('fill', 'none');
+                return;
+            }
 
-        // Draw pennants on each barb
-        for (let i = 0; i < pennants; i++) {
+            // Draw wind barb stems
             thisbarb.append('line')
                 .attr('x1', 0)
-                .attr('x2', -10)
-                .attr('y1', px)
-                .attr('y2', px + 4);
-            px -= 3;
-        }
+                .attr('x2', 0)
+                .attr('y1', 0)
+                .attr('y2', px);
 
-        // Draw half-pennants on each barb
-        for (let i = 0; i < halfpennants; i++) {
-            thisbarb.append('line')
-                .attr('x1', 0)
-                .attr('x2', -5)
-                .attr('y1', px)
-                .attr('y2', px + 2);
-            px -= 3;
-        }
-    });
+            // Draw wind barb flags and pennants for each stem
+            for (let i = 0; i < flags; i++) {
+                thisbarb.append('polyline')
+                    .attr('points', `0,${px} ${side * 10},${px} 0,${px - 4}`)
+                    .attr('class', 'flag')
+                    .style('fill', color);
+                px -= 7;
+            }
+
+            // Draw pennants on each barb
+            for (let i = 0; i < pennants; i++) {
+                thisbarb.append('line')
+                    .attr('x1', 0)
+                    .attr('x2', side * 10)
+                    .attr('y1', px)
+                    .attr('y2', px + 4);
+                px -= 3;
+            }
+
+            // Draw half-pennants on each barb
+            for (let i = 0; i < halfpennants; i++) {
+                thisbarb.append('line')
+                    .attr('x1', 0)
+                    .attr('x2', side * 5)
+                    .attr('y1', px)
+                    .attr('y2', px + 2);
+                px -= 3;
+            }
+        });
 }
 
 /**
- * Adds wind barbs to the barb group for each data point
+ * Adds wind barbs to the barb group for each data point within the pressure
+ * domain of the y scale, keyed by pressure. Levels closer than the given spacing
+ * to the last barb below them are skipped, so dense soundings stay readable.
  *
  * @param data Array of data points with wind information
- * @param topp Minimum pressure value for display
  * @param barbgroup D3 selection for the barb group element
  * @param w Width of the chart
  * @param y D3 scale for the y-axis (pressure)
+ * @param idPrefix Prefix of the symbol ids passed to makeWindbarbs
+ * @param spacing Minimum vertical distance between barbs in pixels; 0 draws every level
  */
 export function drawWindBarbs(
-    data: Array<{ press: number, wdir?: number, wspd?: number }>,
-    topp: number,
+    data: BarbDatum[],
     barbgroup: d3.Selection<SVGGElement, unknown, null, undefined>,
     w: number,
-    y: d3.ScaleLogarithmic<number, number>
+    y: d3.ScaleLogarithmic<number, number>,
+    idPrefix = 'barb',
+    spacing = 0
 ): void {
-    // Filter for valid wind data
-    const barbs = data.filter(d =>
-        typeof d.wdir === 'number' &&
-        typeof d.wspd === 'number' &&
-        d.wdir >= 0 &&
-        d.wspd >= 0 &&
-        d.press >= topp
-    );
+    const [topp, basep] = y.domain();
+
+    // Filter for valid wind data, from the bottom up
+    const winds = data
+        .filter(d =>
+            typeof d.wdir === 'number' &&
+            typeof d.wspd === 'number' &&
+            d.wdir >= 0 &&
+            d.wspd >= 0 &&
+            d.press >= topp &&
+            d.press <= basep
+        )
+        .sort((a, b) => b.press - a.press);
+
+    // Thin out levels in screen space, so that zooming in reveals more barbs
+    const barbs: BarbDatum[] = [];
+    winds.forEach(d => {
+        const last = barbs[barbs.length - 1];
+        if (!last || y(last.press) - y(d.press) >= spacing) barbs.push(d);
+    });
 
     // Draw the barbs
-    barbgroup.selectAll('barbs')
-        .data(barbs)
-        .enter()
-        .append('use')
-        .attr('xlink:href', (d) => {
-            const kts = Math.round(convertWindSpeed(d.wspd!, 'kt') / 5) * 5; // convert to knots, round to nearest 5
-            return '#barb' + kts;
-        })
+    barbgroup.selectAll<SVGUseElement, BarbDatum>('use')
+        .data(barbs, d => d.press)
+        .join('use')
+        .attr('xlink:href', d => `#${idPrefix}${barbSpeed(d.wspd!)}`)
         .attr('transform', (d) => `translate(${w},${y(d.press)}) rotate(${d.wdir! + 180})`);
-}
\ No newline at end of file
+}